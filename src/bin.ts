@@ -0,0 +1,15 @@
+/**
+ * Executable entry point of the `uyghur-utils` command
+ */
+
+import { runCli } from './cli';
+
+runCli(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    process.stderr.write(`uyghur-utils: ${error instanceof Error ? error.message : String(error)}\n`);
+    process.exitCode = 1;
+  }
+);
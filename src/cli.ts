@@ -0,0 +1,372 @@
+/**
+ * Command-line interface
+ * Exposes transliteration, slugs, detection, normalization and numeral conversion to shell scripts
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { detectScript, getTextDirection, isLikelyUyghur } from './detect';
+import { transliterateHtml, transliterateMarkdown } from './markup';
+import { normalizeForSearch, normalizeUyghur } from './normalize';
+import { extractNumbers, toArabicIndicNumerals, toWesternNumerals } from './numbers';
+import { generateSlug, type SlugOptions } from './slug';
+import { listSchemes, transliterate, type TransliterateOptions } from './transliterate';
+
+/**
+ * Input and output used by the CLI, replaceable for testing
+ */
+export interface CliIO {
+  /** Standard input chunks */
+  stdin: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>;
+  /** Write to standard output */
+  stdout: (text: string) => void;
+  /** Write to standard error */
+  stderr: (text: string) => void;
+}
+
+/**
+ * Exit codes
+ */
+const EXIT_OK = 0;
+const EXIT_INVALID_INPUT = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: uyghur-utils <command> [options] [files...]
+
+Reads the given files, or standard input when no files (or "-") are given.
+
+Commands:
+  translit    Transliterate between Arabic script, Latin and Cyrillic
+                --to <latin|arabic|cyrillic>   Output script (default: auto)
+                --direction <toLatin|toArabic|auto>
+                --scheme <name>                Latin scheme (uly, uyy, ascii)
+                --preserve-case                Capitalize Latin output
+                --include-unmapped             Keep characters without a mapping
+                --no-punctuation               Keep punctuation unconverted
+                --mixed                        Convert only Uyghur spans
+                --html | --markdown            Convert only the text of a document
+                -i, --in-place                 Rewrite the files
+  slug        Print a slug for each input line
+                --max-length <n>  --separator <s>  --no-lowercase  --no-trim
+  detect      Detect the script of the input
+                --json                         Print JSON
+  normalize   Normalize Uyghur text
+                --search                       Aggressive search normalization
+                -i, --in-place                 Rewrite the files
+  numbers     Convert numerals
+                --to <western|arabic-indic>    Numeral system (default: western)
+                --extract                      Print the numbers found instead
+                --json                         Print extracted numbers as JSON
+                -i, --in-place                 Rewrite the files
+
+Options:
+  -h, --help  Show this help
+`;
+
+/**
+ * Error in the command line itself (exit code 2)
+ */
+class CliUsageError extends Error {}
+
+/**
+ * Error in the input data (exit code 1)
+ */
+class CliInputError extends Error {}
+
+interface ParsedArgs {
+  flags: Record<string, string | boolean>;
+  positionals: string[];
+}
+
+/**
+ * Flags accepted by each command: `true` for flags taking a value
+ */
+const COMMAND_FLAGS: Record<string, Record<string, boolean>> = {
+  translit: {
+    'to': true,
+    'direction': true,
+    'scheme': true,
+    'preserve-case': false,
+    'include-unmapped': false,
+    'no-punctuation': false,
+    'mixed': false,
+    'html': false,
+    'markdown': false,
+    'in-place': false,
+  },
+  slug: { 'max-length': true, 'separator': true, 'no-lowercase': false, 'no-trim': false },
+  detect: { json: false },
+  normalize: { 'search': false, 'in-place': false },
+  numbers: { 'to': true, 'extract': false, 'json': false, 'in-place': false },
+};
+
+/**
+ * Parse command arguments against the flags a command accepts
+ */
+function parseArgs(args: string[], accepted: Record<string, boolean>): ParsedArgs {
+  const flags: Record<string, string | boolean> = {};
+  const positionals: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--') {
+      positionals.push(...args.slice(i + 1));
+      break;
+    }
+    if (arg === '-i') {
+      flags['in-place'] = true;
+      continue;
+    }
+    if (!arg.startsWith('--')) {
+      if (arg.startsWith('-') && arg !== '-') throw new CliUsageError(`Unknown option: ${arg}`);
+      positionals.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s);
+    if (!(name in accepted)) throw new CliUsageError(`Unknown option: --${name}`);
+
+    if (accepted[name]) {
+      const value = inlineValue ?? args[++i];
+      if (value === undefined) throw new CliUsageError(`Option --${name} requires a value`);
+      flags[name] = value;
+    } else {
+      if (inlineValue !== undefined) throw new CliUsageError(`Option --${name} does not take a value`);
+      flags[name] = true;
+    }
+  }
+
+  return { flags, positionals };
+}
+
+/**
+ * Check that an option value is one of the allowed choices
+ */
+function choice<T extends string>(value: string | boolean | undefined, name: string, choices: readonly T[]): T | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !choices.includes(value as T)) {
+    throw new CliUsageError(`Invalid value for --${name}: ${value} (expected ${choices.join(', ')})`);
+  }
+  return value as T;
+}
+
+/**
+ * Decode UTF-8 input, rejecting invalid byte sequences
+ */
+function decode(bytes: Uint8Array, source: string): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    throw new CliInputError(`${source}: input is not valid UTF-8`);
+  }
+}
+
+async function readStdin(stdin: CliIO['stdin']): Promise<string> {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of stdin) {
+    chunks.push(typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk);
+  }
+
+  const bytes = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return decode(bytes, 'stdin');
+}
+
+async function readInput(source: string, io: CliIO): Promise<string> {
+  if (source === '-') return readStdin(io.stdin);
+
+  try {
+    return decode(await readFile(source), source);
+  } catch (error) {
+    if (error instanceof CliInputError) throw error;
+    throw new CliInputError(`${source}: cannot read file`);
+  }
+}
+
+/**
+ * Apply a conversion to each line, keeping the line structure of the input
+ */
+function mapLines(text: string, convert: (line: string) => string): string {
+  return text
+    .split(/(\r?\n)/)
+    .map((part, index) => (index % 2 === 1 ? part : convert(part)))
+    .join('');
+}
+
+/**
+ * Build the text conversion of a command that rewrites its input
+ */
+function createConverter(command: string, flags: ParsedArgs['flags']): (text: string) => string {
+  if (command === 'normalize') {
+    return (text) => mapLines(text, flags.search ? normalizeForSearch : normalizeUyghur);
+  }
+
+  if (command === 'numbers') {
+    const system = choice(flags.to, 'to', ['western', 'arabic-indic'] as const) ?? 'western';
+    return system === 'western' ? toWesternNumerals : toArabicIndicNumerals;
+  }
+
+  const scheme = typeof flags.scheme === 'string' ? flags.scheme : undefined;
+  if (scheme !== undefined && !listSchemes().includes(scheme)) {
+    throw new CliUsageError(`Invalid value for --scheme: ${scheme} (expected ${listSchemes().join(', ')})`);
+  }
+  if (flags.html && flags.markdown) {
+    throw new CliUsageError('Options --html and --markdown cannot be combined');
+  }
+
+  const options: TransliterateOptions = {
+    target: choice(flags.to, 'to', ['latin', 'arabic', 'cyrillic'] as const),
+    direction: choice(flags.direction, 'direction', ['toLatin', 'toArabic', 'auto'] as const),
+    scheme,
+    preserveCase: flags['preserve-case'] === true,
+    includeUnmapped: flags['include-unmapped'] === true,
+    punctuation: flags['no-punctuation'] !== true,
+    mixedContent: flags.mixed === true,
+  };
+
+  if (flags.html) return (text) => transliterateHtml(text, options);
+  if (flags.markdown) return (text) => transliterateMarkdown(text, options);
+  return (text) => mapLines(text, (line) => transliterate(line, options));
+}
+
+function slugOptions(flags: ParsedArgs['flags']): SlugOptions {
+  const options: SlugOptions = {
+    lowercase: flags['no-lowercase'] !== true,
+    trim: flags['no-trim'] !== true,
+  };
+
+  if (flags['max-length'] !== undefined) {
+    const maxLength = Number(flags['max-length']);
+    if (!Number.isInteger(maxLength) || maxLength < 1) {
+      throw new CliUsageError(`Invalid value for --max-length: ${flags['max-length']}`);
+    }
+    options.maxLength = maxLength;
+  }
+  if (typeof flags.separator === 'string') {
+    if (!flags.separator) throw new CliUsageError('Option --separator requires a value');
+    options.separator = flags.separator;
+  }
+
+  return options;
+}
+
+/**
+ * Run a command on its inputs and write the result
+ */
+async function runCommand(command: string, { flags, positionals }: ParsedArgs, io: CliIO): Promise<void> {
+  const sources = positionals.length > 0 ? positionals : ['-'];
+  const inPlace = flags['in-place'] === true;
+
+  if (inPlace && (positionals.length === 0 || positionals.includes('-'))) {
+    throw new CliUsageError('Option --in-place requires files');
+  }
+
+  if (command === 'detect') {
+    const results = [];
+    for (const source of sources) {
+      const text = await readInput(source, io);
+      results.push({
+        file: source === '-' ? null : source,
+        script: detectScript(text),
+        direction: getTextDirection(text),
+        likelyUyghur: isLikelyUyghur(text),
+      });
+    }
+
+    if (flags.json) {
+      io.stdout(JSON.stringify(sources.length === 1 ? results[0] : results) + '\n');
+    } else {
+      for (const result of results) {
+        io.stdout(sources.length === 1 ? `${result.script}\n` : `${result.file ?? '-'}: ${result.script}\n`);
+      }
+    }
+    return;
+  }
+
+  if (command === 'slug') {
+    const options = slugOptions(flags);
+    for (const source of sources) {
+      const lines = (await readInput(source, io)).split(/\r?\n/).filter((line) => line.trim());
+      for (const line of lines) {
+        const slug = generateSlug(line, options);
+        if (!slug) throw new CliInputError(`Cannot generate a slug from: ${line}`);
+        io.stdout(slug + '\n');
+      }
+    }
+    return;
+  }
+
+  if (command === 'numbers' && flags.extract) {
+    const numbers: number[] = [];
+    for (const source of sources) {
+      numbers.push(...extractNumbers(await readInput(source, io)));
+    }
+    io.stdout(flags.json ? JSON.stringify(numbers) + '\n' : numbers.map((n) => `${n}\n`).join(''));
+    return;
+  }
+
+  const convert = createConverter(command, flags);
+  for (const source of sources) {
+    const output = convert(await readInput(source, io));
+    if (inPlace) {
+      await writeFile(source, output, 'utf8');
+    } else {
+      io.stdout(output);
+    }
+  }
+}
+
+/**
+ * Run the command-line interface
+ *
+ * @param args - Command-line arguments, without the node and script paths
+ * @param io - Standard streams (default: the process streams)
+ * @returns The process exit code: 0 on success, 1 for invalid input, 2 for usage errors
+ *
+ * @example
+ * ```ts
+ * await runCli(['translit', '--to', 'latin', 'article.txt']);
+ * ```
+ */
+export async function runCli(args: string[], io: CliIO = processIO()): Promise<number> {
+  const [command, ...rest] = args;
+
+  if (command === undefined || command === '-h' || command === '--help' || command === 'help') {
+    (command === undefined ? io.stderr : io.stdout)(USAGE);
+    return command === undefined ? EXIT_USAGE : EXIT_OK;
+  }
+
+  try {
+    const accepted = COMMAND_FLAGS[command];
+    if (!accepted) throw new CliUsageError(`Unknown command: ${command}`);
+    if (rest.includes('-h') || rest.includes('--help')) {
+      io.stdout(USAGE);
+      return EXIT_OK;
+    }
+
+    await runCommand(command, parseArgs(rest, accepted), io);
+    return EXIT_OK;
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      io.stderr(`uyghur-utils: ${error.message}\nRun 'uyghur-utils --help' for usage.\n`);
+      return EXIT_USAGE;
+    }
+    if (error instanceof CliInputError) {
+      io.stderr(`uyghur-utils: ${error.message}\n`);
+      return EXIT_INVALID_INPUT;
+    }
+    throw error;
+  }
+}
+
+function processIO(): CliIO {
+  return {
+    stdin: process.stdin,
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * Collation utilities
+ * Compare and sort Uyghur text in the official alphabetical order
+ */
+
+import {
+  ARABIC_INDIC_NUMERALS,
+  COMPLETE_ARABIC_TO_LATIN,
+  EXTENDED_ARABIC_INDIC_NUMERALS,
+  UYGHUR_ALPHABET_ARABIC,
+  UYGHUR_ALPHABET_LATIN,
+} from './constants';
+import { normalizeUyghur } from './normalize';
+import { fromCyrillic } from './transliterate';
+
+/**
+ * Options for collation
+ */
+export interface CollationOptions {
+  /**
+   * Which differences count (default: 'tertiary')
+   * - `primary`: letters only; hamza, apostrophes, diacritics, punctuation, case and script are ignored
+   * - `secondary`: also hamza, apostrophes, diacritics and punctuation
+   * - `tertiary`: also case and script, so that no two different strings compare equal
+   */
+  strength?: 'primary' | 'secondary' | 'tertiary';
+}
+
+/**
+ * Sort key of a string
+ */
+interface CollationKey {
+  primary: number[];
+  secondary: number[];
+  tertiary: number[];
+  text: string;
+}
+
+/**
+ * Primary weights: word separators sort before digits, digits before letters,
+ * and characters outside the Uyghur alphabet after it by code point
+ */
+const SEPARATOR_WEIGHT = 1;
+const DIGIT_BASE = 10;
+const LETTER_BASE = 100;
+const OTHER_BASE = 1000;
+
+/**
+ * Secondary weights of characters ignored at primary strength
+ * Hamza and the ULY apostrophe weigh the same, so both scripts agree
+ */
+const HAMZA_WEIGHT = 1;
+const DIACRITIC_WEIGHT = 2;
+const PUNCTUATION_WEIGHT = 3;
+
+/**
+ * Tertiary weights of scripts; uppercase adds one
+ */
+const SCRIPT_WEIGHTS = { arabic: 0, latin: 2, cyrillic: 4 } as const;
+
+const LATIN_RANKS = new Map<string, number>(UYGHUR_ALPHABET_LATIN.map((letter, index) => [letter, index]));
+const ARABIC_RANKS = new Map<string, number>(UYGHUR_ALPHABET_ARABIC.map((letter, index) => [letter, index]));
+const DIGITS: Record<string, string> = { ...ARABIC_INDIC_NUMERALS, ...EXTENDED_ARABIC_INDIC_NUMERALS };
+
+/**
+ * Build the collation key of a text
+ */
+function collationKey(text: string): CollationKey {
+  const key: CollationKey = { primary: [], secondary: [], tertiary: [], text };
+
+  const pushWeight = (primary: number, script: keyof typeof SCRIPT_WEIGHTS, upper = false) => {
+    key.primary.push(primary);
+    key.secondary.push(primary);
+    key.tertiary.push(SCRIPT_WEIGHTS[script] + (upper ? 1 : 0));
+  };
+
+  // Cyrillic runs are read through ULY so all scripts share one alphabet
+  for (const run of normalizeUyghur(text).match(/\p{Script=Cyrillic}+|\P{Script=Cyrillic}+/gu) ?? []) {
+    const script = /\p{Script=Cyrillic}/u.test(run) ? 'cyrillic' : 'latin';
+    const source = Array.from(script === 'cyrillic' ? fromCyrillic(run, 'latin') : run);
+
+    for (let i = 0; i < source.length; i++) {
+      const char = source[i];
+      const lower = char.toLowerCase();
+      const upper = char !== lower;
+      const digraph = lower + (source[i + 1] ?? '').toLowerCase();
+      // Other accented Latin letters sort as their base letter plus a diacritic
+      const [base, ...marks] = Array.from(lower.normalize('NFD'));
+
+      if (LATIN_RANKS.has(digraph)) {
+        // ULY digraphs (ch, zh, sh, gh, ng) are single letters
+        pushWeight(LETTER_BASE + LATIN_RANKS.get(digraph)!, script, upper);
+        i++;
+      } else if (LATIN_RANKS.has(lower)) {
+        pushWeight(LETTER_BASE + LATIN_RANKS.get(lower)!, script, upper);
+      } else if (marks.length > 0 && LATIN_RANKS.has(base)) {
+        pushWeight(LETTER_BASE + LATIN_RANKS.get(base)!, script, upper);
+        key.secondary.push(DIACRITIC_WEIGHT);
+      } else if (ARABIC_RANKS.has(char)) {
+        pushWeight(LETTER_BASE + ARABIC_RANKS.get(char)!, 'arabic');
+      } else if (/[0-9]/.test(char) || char in DIGITS) {
+        pushWeight(DIGIT_BASE + Number(DIGITS[char] ?? char), 'latin');
+      } else if (char === 'ئ' || char === 'ء' || char === "'") {
+        key.secondary.push(HAMZA_WEIGHT);
+      } else if (/\p{M}/u.test(char)) {
+        key.secondary.push(DIACRITIC_WEIGHT);
+      } else if (/\s/.test(char)) {
+        pushWeight(SEPARATOR_WEIGHT, 'latin');
+      } else if (/[\p{P}\p{S}]/u.test(char)) {
+        key.secondary.push(PUNCTUATION_WEIGHT);
+      } else if (COMPLETE_ARABIC_TO_LATIN[char] !== undefined) {
+        // Arabic-borrowed letters sort with the Uyghur letter they are read as
+        const rank = LATIN_RANKS.get(COMPLETE_ARABIC_TO_LATIN[char]);
+        if (rank === undefined) key.secondary.push(HAMZA_WEIGHT);
+        else pushWeight(LETTER_BASE + rank, 'arabic');
+      } else {
+        pushWeight(OTHER_BASE + (lower.codePointAt(0) ?? 0), 'latin', upper);
+      }
+    }
+  }
+
+  return key;
+}
+
+/**
+ * Compare two weight sequences lexicographically
+ */
+function compareWeights(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) return a[i] < b[i] ? -1 : 1;
+  }
+  return a.length === b.length ? 0 : a.length < b.length ? -1 : 1;
+}
+
+/**
+ * Compare two collation keys up to the given strength
+ */
+function compareKeys(a: CollationKey, b: CollationKey, options?: CollationOptions): number {
+  const strength = options?.strength ?? 'tertiary';
+
+  const primary = compareWeights(a.primary, b.primary);
+  if (primary !== 0 || strength === 'primary') return primary;
+
+  const secondary = compareWeights(a.secondary, b.secondary);
+  if (secondary !== 0 || strength === 'secondary') return secondary;
+
+  const tertiary = compareWeights(a.tertiary, b.tertiary);
+  if (tertiary !== 0) return tertiary;
+
+  return a.text === b.text ? 0 : a.text < b.text ? -1 : 1;
+}
+
+/**
+ * Compare two strings in Uyghur alphabetical order
+ * Follows the official letter order in Arabic script, ULY and Cyrillic alike
+ * (ULY digraphs such as `ch` are single letters), so mixed-script lists sort
+ * consistently: 'salam' sorts next to 'سالام'
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @param options - Collation options (`strength`)
+ * @returns A negative number if a sorts first, positive if b sorts first, 0 if equal
+ *
+ * @example
+ * ```ts
+ * ['ئەت', 'ئات', 'بال'].sort(compareUyghur) // ['ئات', 'ئەت', 'بال']
+ * compareUyghur('chay', 'daka') // -1 (ch comes before d)
+ * compareUyghur('ئالما', 'الما', { strength: 'primary' }) // 0
+ * ```
+ */
+export function compareUyghur(a: string, b: string, options?: CollationOptions): number {
+  return compareKeys(collationKey(a), collationKey(b), options);
+}
+
+/**
+ * Sort an array in Uyghur alphabetical order
+ * Returns a new array; each sort key is computed only once
+ *
+ * @param array - The items to sort
+ * @param keyFn - Get the text to sort an item by (default: the item itself)
+ * @param options - Collation options (`strength`)
+ * @returns The sorted items
+ *
+ * @example
+ * ```ts
+ * sortUyghur(['بال', 'ئەت', 'ئات']) // ['ئات', 'ئەت', 'بال']
+ * sortUyghur(contacts, (contact) => contact.name)
+ * ```
+ */
+export function sortUyghur(array: readonly string[], keyFn?: (item: string) => string, options?: CollationOptions): string[];
+export function sortUyghur<T>(array: readonly T[], keyFn: (item: T) => string, options?: CollationOptions): T[];
+export function sortUyghur<T>(array: readonly T[], keyFn?: (item: T) => string, options?: CollationOptions): T[] {
+  return array
+    .map((item) => ({ item, key: collationKey(keyFn ? keyFn(item) : String(item)) }))
+    .sort((a, b) => compareKeys(a.key, b.key, options))
+    .map(({ item }) => item);
+}
@@ -214,3 +214,167 @@ export const UYGHUR_CONSONANTS_ARABIC = [
   'ز', 'ژ', 'س', 'ش', 'غ', 'ف', 'ق', 'ك',
   'ڭ', 'گ', 'ل', 'م', 'ن', 'ھ', 'ۋ', 'ي',
 ] as const;
+
+/**
+ * Back vowels (Arabic script): words whose last harmonizing vowel is one of
+ * these take back suffixes ('-لار', '-غا'); ې and ى are neutral
+ */
+export const UYGHUR_BACK_VOWELS_ARABIC = ['ا', 'و', 'ۇ'] as const;
+
+/**
+ * Front vowels (Arabic script): words take front suffixes ('-لەر', '-گە')
+ */
+export const UYGHUR_FRONT_VOWELS_ARABIC = ['ە', 'ۆ', 'ۈ'] as const;
+
+/**
+ * Voiceless consonants (Arabic script): suffixes after them start with ت, ق or ك
+ */
+export const UYGHUR_VOICELESS_CONSONANTS_ARABIC = ['پ', 'ت', 'چ', 'خ', 'س', 'ش', 'ف', 'ق', 'ك'] as const;
+
+/**
+ * Latin (ULY) to Uyghur Cyrillic (UKY) mapping
+ * Sequences of `y` + vowel use the iotated letters я, ю, ё
+ */
+export const ULY_TO_CYRILLIC: Record<string, string> = {
+  'ya': 'я',
+  'yu': 'ю',
+  'yo': 'ё',
+  'ch': 'ч',
+  'zh': 'ж',
+  'sh': 'ш',
+  'gh': 'ғ',
+  'ng': 'ң',
+  'a': 'а',
+  'e': 'ә',
+  'b': 'б',
+  'p': 'п',
+  't': 'т',
+  'j': 'җ',
+  'x': 'х',
+  'd': 'д',
+  'r': 'р',
+  'z': 'з',
+  's': 'с',
+  'f': 'ф',
+  'q': 'қ',
+  'k': 'к',
+  'g': 'г',
+  'l': 'л',
+  'm': 'м',
+  'n': 'н',
+  'h': 'һ',
+  'o': 'о',
+  'u': 'у',
+  'ö': 'ө',
+  'ü': 'ү',
+  'w': 'в',
+  'é': 'е',
+  'i': 'и',
+  'y': 'й',
+};
+
+/**
+ * Uyghur Cyrillic (UKY) to Latin (ULY) mapping
+ * Includes Russian letters found in loanwords
+ */
+export const CYRILLIC_TO_ULY: Record<string, string> = {
+  'а': 'a',
+  'ә': 'e',
+  'б': 'b',
+  'в': 'w',
+  'г': 'g',
+  'ғ': 'gh',
+  'д': 'd',
+  'е': 'é',
+  'ё': 'yo',
+  'ж': 'zh',
+  'җ': 'j',
+  'з': 'z',
+  'и': 'i',
+  'й': 'y',
+  'к': 'k',
+  'қ': 'q',
+  'л': 'l',
+  'м': 'm',
+  'н': 'n',
+  'ң': 'ng',
+  'о': 'o',
+  'ө': 'ö',
+  'п': 'p',
+  'р': 'r',
+  'с': 's',
+  'т': 't',
+  'у': 'u',
+  'ү': 'ü',
+  'ф': 'f',
+  'х': 'x',
+  'һ': 'h',
+  'ч': 'ch',
+  'ш': 'sh',
+  'ю': 'yu',
+  'я': 'ya',
+  // Russian loanword letters
+  'ц': 'ts',
+  'щ': 'shch',
+  'ы': 'i',
+  'э': 'e',
+  'ъ': '',
+  'ь': '',
+};
+
+/**
+ * Latin (ULY) to Uyghur Yéngi Yéziq (UYY) spellings
+ * Only letters that differ from ULY are listed
+ */
+export const ULY_TO_UYY: Record<string, string> = {
+  'e': 'ə',
+  'ch': 'q',
+  'x': 'h',
+  'zh': 'ⱬ',
+  'sh': 'x',
+  'gh': 'ƣ',
+  'q': 'ⱪ',
+  'ng': 'ŋ',
+  'h': 'ⱨ',
+  'ö': 'ɵ',
+  'w': 'v',
+  'é': 'e',
+};
+
+/**
+ * Latin (ULY) to ASCII-only ULY spellings
+ * Only letters that differ from ULY are listed
+ */
+export const ULY_TO_ASCII: Record<string, string> = {
+  'ö': "o'",
+  'ü': "u'",
+  'é': "e'",
+};
+
+/**
+ * Arabic-script punctuation to Latin punctuation
+ */
+export const ARABIC_TO_LATIN_PUNCTUATION: Record<string, string> = {
+  '،': ',', // Arabic comma
+  '؛': ';', // Arabic semicolon
+  '؟': '?', // Arabic question mark
+  '۔': '.', // Arabic full stop
+  '«': '"',
+  '»': '"',
+  '٪': '%', // Arabic percent sign
+  '٫': '.', // Arabic decimal separator
+  '٬': ',', // Arabic thousands separator
+};
+
+/**
+ * Latin punctuation to Arabic-script punctuation
+ * Quotes and separators between digits depend on context and are handled separately
+ */
+export const LATIN_TO_ARABIC_PUNCTUATION: Record<string, string> = {
+  ',': '،',
+  ';': '؛',
+  '?': '؟',
+  '%': '٪',
+  '“': '«',
+  '”': '»',
+};
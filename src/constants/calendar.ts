@@ -0,0 +1,18 @@
+/**
+ * Uyghur calendar names
+ */
+
+/**
+ * Month names in Arabic script, January first
+ */
+export const UYGHUR_MONTHS_ARABIC = [
+  'يانۋار', 'فېۋرال', 'مارت', 'ئاپرېل', 'ماي', 'ئىيۇن',
+  'ئىيۇل', 'ئاۋغۇست', 'سېنتەبىر', 'ئۆكتەبىر', 'نويابىر', 'دېكابىر',
+] as const;
+
+/**
+ * Weekday names in Arabic script, Sunday first (as `Date.prototype.getDay`)
+ */
+export const UYGHUR_WEEKDAYS_ARABIC = [
+  'يەكشەنبە', 'دۈشەنبە', 'سەيشەنبە', 'چارشەنبە', 'پەيشەنبە', 'جۈمە', 'شەنبە',
+] as const;
@@ -1 +1,2 @@
 export * from './alphabet';
+export * from './calendar';
@@ -0,0 +1,315 @@
+/**
+ * Date utilities
+ * Format and parse dates the Uyghur way: '2024-يىلى 5-ئاينىڭ 12-كۈنى'
+ */
+
+import { UYGHUR_MONTHS_ARABIC, UYGHUR_WEEKDAYS_ARABIC } from './constants';
+import { formatNumber, toArabicIndicNumerals, toWesternNumerals } from './numbers';
+import { fromCyrillic, toArabic, toCyrillic, toULY } from './transliterate';
+
+/**
+ * Options for formatting dates
+ */
+export interface DateFormatOptions {
+  /** Script of month and weekday names and of the pattern text (default: 'arabic') */
+  script?: 'arabic' | 'latin' | 'cyrillic';
+  /** Numeral system (default: 'western') */
+  numerals?: 'western' | 'arabic-indic';
+}
+
+/**
+ * Units for relative time
+ */
+export type RelativeTimeUnit = 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year';
+
+/**
+ * Options for relative time
+ */
+export interface RelativeTimeOptions {
+  /** Output script (default: 'arabic') */
+  script?: 'arabic' | 'latin' | 'cyrillic';
+  /** Numeral system (default: 'western') */
+  numerals?: 'western' | 'arabic-indic';
+  /** 'auto' uses words such as 'ئەتە' (tomorrow) where they exist, 'always' uses numbers (default: 'auto') */
+  numeric?: 'always' | 'auto';
+  /** The time a date is relative to (default: now) */
+  now?: Date;
+}
+
+/**
+ * The date as it is written in full: '2024-يىلى 5-ئاينىڭ 12-كۈنى'
+ */
+const DEFAULT_PATTERN = 'YYYY-يىلى M-ئاينىڭ D-كۈنى';
+
+/**
+ * Pattern tokens; text in [brackets] is never read as tokens
+ */
+const TOKEN_PATTERN = /\[([^\]]*)\]|YYYY|YY|MMMM|MM|M|DD|D|dddd|HH|H|mm|ss/g;
+
+/**
+ * Write Arabic-script text in a script, keeping its spacing and symbols ('/')
+ */
+function inScript(text: string, script: DateFormatOptions['script']): string {
+  if (script === 'latin') return text.replace(/\S+/g, (run) => toULY(run, { includeUnmapped: true }));
+  if (script === 'cyrillic') return text.replace(/\S+/g, (run) => toCyrillic(run, { includeUnmapped: true }));
+  return text;
+}
+
+/**
+ * Format a date with a pattern
+ * Tokens: `YYYY`, `YY` (year), `MMMM` (month name), `MM`, `M` (month), `DD`, `D` (day),
+ * `dddd` (weekday name), `HH`, `H` (hour), `mm` (minute), `ss` (second).
+ * Other text, including text in [brackets], is written in the chosen script.
+ *
+ * @param date - The date (local time)
+ * @param pattern - The pattern (default: 'YYYY-يىلى M-ئاينىڭ D-كۈنى')
+ * @param options - Formatting options (`script`, `numerals`)
+ * @returns The formatted date
+ *
+ * @example
+ * ```ts
+ * const date = new Date(2024, 4, 12);
+ * formatUyghurDate(date) // '2024-يىلى 5-ئاينىڭ 12-كۈنى'
+ * formatUyghurDate(date, 'D-MMMM YYYY، dddd') // '12-ماي 2024، يەكشەنبە'
+ * formatUyghurDate(date, undefined, { script: 'latin' }) // '2024-yili 5-ayning 12-küni'
+ * formatUyghurDate(date, 'YYYY/MM/DD', { numerals: 'arabic-indic' }) // '٢٠٢٤/٠٥/١٢'
+ * ```
+ */
+export function formatUyghurDate(date: Date, pattern = DEFAULT_PATTERN, options?: DateFormatOptions): string {
+  if (Number.isNaN(date.getTime())) {
+    throw new Error('Invalid date');
+  }
+
+  const script = options?.script;
+  const number = (value: number, width = 1) => {
+    const digits = String(value).padStart(width, '0');
+    return options?.numerals === 'arabic-indic' ? toArabicIndicNumerals(digits) : digits;
+  };
+
+  const values: Record<string, () => string> = {
+    YYYY: () => number(date.getFullYear(), 4),
+    YY: () => number(date.getFullYear() % 100, 2),
+    MMMM: () => inScript(UYGHUR_MONTHS_ARABIC[date.getMonth()], script),
+    MM: () => number(date.getMonth() + 1, 2),
+    M: () => number(date.getMonth() + 1),
+    DD: () => number(date.getDate(), 2),
+    D: () => number(date.getDate()),
+    dddd: () => inScript(UYGHUR_WEEKDAYS_ARABIC[date.getDay()], script),
+    HH: () => number(date.getHours(), 2),
+    H: () => number(date.getHours()),
+    mm: () => number(date.getMinutes(), 2),
+    ss: () => number(date.getSeconds(), 2),
+  };
+
+  let result = '';
+  let last = 0;
+
+  for (const match of pattern.matchAll(TOKEN_PATTERN)) {
+    const index = match.index ?? 0;
+    result += inScript(pattern.slice(last, index), script);
+    result += match[1] !== undefined ? inScript(match[1], script) : values[match[0]]();
+    last = index + match[0].length;
+  }
+
+  return result + inScript(pattern.slice(last), script);
+}
+
+/**
+ * Find the month named by a word ('ماي', 'مايدا'), 1-based
+ */
+function monthFromName(text: string): number | undefined {
+  for (const word of text.match(/\p{L}+/gu) ?? []) {
+    const index = UYGHUR_MONTHS_ARABIC.findIndex((name) => word.startsWith(name));
+    if (index >= 0) return index + 1;
+  }
+  return undefined;
+}
+
+/**
+ * Parse a Uyghur date, as written by `formatUyghurDate` or by hand
+ * Understands Arabic script, ULY and Cyrillic, Western and Arabic-Indic digits,
+ * labelled parts ('2024-يىلى 5-ئاينىڭ 12-كۈنى'), month names ('12-ماي 2024'),
+ * numeric dates ('2024-05-12', '12.05.2024') and an optional time ('14:30')
+ *
+ * @param text - The text to parse
+ * @returns The date (local time), or undefined if no valid date is found
+ *
+ * @example
+ * ```ts
+ * parseUyghurDate('2024-يىلى 5-ئاينىڭ 12-كۈنى') // new Date(2024, 4, 12)
+ * parseUyghurDate('١٢-ماي ٢٠٢٤') // new Date(2024, 4, 12)
+ * parseUyghurDate('2024-yili 12-may, 14:30') // new Date(2024, 4, 12, 14, 30)
+ * parseUyghurDate('ئەتە') // undefined
+ * ```
+ */
+export function parseUyghurDate(text: string): Date | undefined {
+  if (!text) return undefined;
+
+  // Read everything as Arabic script with Western digits
+  let source = text;
+  if (/\p{Script=Cyrillic}/u.test(source)) source = fromCyrillic(source);
+  else if (/\p{Script=Latin}/u.test(source)) source = toArabic(source);
+  source = toWesternNumerals(source);
+
+  let [hours, minutes, seconds] = [0, 0, 0];
+  const time = /(?<!\d)(\d{1,2}):(\d{2})(?::(\d{2}))?(?!\d)/.exec(source);
+  if (time) {
+    [hours, minutes, seconds] = [Number(time[1]), Number(time[2]), Number(time[3] ?? 0)];
+    source = source.replace(time[0], ' ');
+  }
+
+  let year: number | undefined;
+  let month: number | undefined;
+  let day: number | undefined;
+
+  const isoDate = /(?<!\d)(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?!\d)/.exec(source);
+  const dottedDate = /(?<!\d)(\d{1,2})[./](\d{1,2})[./](\d{4})(?!\d)/.exec(source);
+
+  if (isoDate) {
+    [year, month, day] = [Number(isoDate[1]), Number(isoDate[2]), Number(isoDate[3])];
+  } else if (dottedDate) {
+    [day, month, year] = [Number(dottedDate[1]), Number(dottedDate[2]), Number(dottedDate[3])];
+  } else {
+    // Labelled parts first, then a month name with a bare year and day
+    const labelled = (label: string, digits: string) => {
+      const match = new RegExp(`(?<!\\d)(${digits})\\s*-?\\s*${label}`).exec(source);
+      if (!match) return undefined;
+      source = source.replace(match[0], ' ');
+      return Number(match[1]);
+    };
+    const bare = (digits: string) => {
+      const match = new RegExp(`(?<!\\d)(${digits})(?!\\d)`).exec(source);
+      if (!match) return undefined;
+      source = source.replace(match[0], ' ');
+      return Number(match[1]);
+    };
+
+    year = labelled('يىل', '\\d{4}');
+    month = labelled('ئاي', '\\d{1,2}');
+    day = labelled('كۈن', '\\d{1,2}');
+    month ??= monthFromName(source);
+    year ??= bare('\\d{4}');
+    day ??= bare('\\d{1,2}');
+  }
+
+  if (year === undefined || month === undefined || day === undefined) return undefined;
+
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  date.setFullYear(year);
+
+  // Reject out-of-range parts instead of letting Date roll them over
+  const valid =
+    date.getFullYear() === year &&
+    date.getMonth() === month - 1 &&
+    date.getDate() === day &&
+    date.getHours() === hours &&
+    date.getMinutes() === minutes &&
+    date.getSeconds() === seconds;
+
+  return valid ? date : undefined;
+}
+
+/**
+ * Uyghur words for relative time units, plain and in the ablative ('after')
+ */
+const UNIT_WORDS: Record<RelativeTimeUnit, [string, string]> = {
+  second: ['سېكۇنت', 'سېكۇنتتىن'],
+  minute: ['مىنۇت', 'مىنۇتتىن'],
+  hour: ['سائەت', 'سائەتتىن'],
+  day: ['كۈن', 'كۈندىن'],
+  week: ['ھەپتە', 'ھەپتىدىن'],
+  month: ['ئاي', 'ئايدىن'],
+  year: ['يىل', 'يىلدىن'],
+};
+
+/**
+ * Words for nearby times, by unit and value (used with numeric: 'auto')
+ */
+const RELATIVE_WORDS: Partial<Record<RelativeTimeUnit, Record<number, string>>> = {
+  second: { 0: 'ھازىر' },
+  minute: { 0: 'ھازىر' },
+  hour: { 0: 'ھازىر' },
+  day: { [-1]: 'تۈنۈگۈن', 0: 'بۈگۈن', 1: 'ئەتە' },
+  week: { [-1]: 'ئالدىنقى ھەپتە', 0: 'بۇ ھەپتە', 1: 'كېلەر ھەپتە' },
+  month: { [-1]: 'ئالدىنقى ئاي', 0: 'بۇ ئاي', 1: 'كېلەر ئاي' },
+  year: { [-1]: 'بۇلتۇر', 0: 'بۇ يىل', 1: 'كېلەر يىل' },
+};
+
+const SECONDS_IN: Record<RelativeTimeUnit, number> = {
+  second: 1,
+  minute: 60,
+  hour: 3600,
+  day: 86400,
+  week: 604800,
+  month: 2629746,
+  year: 31556952,
+};
+
+/**
+ * Pick the largest unit that fits a time difference and round to it
+ */
+function pickUnit(seconds: number): [number, RelativeTimeUnit] {
+  const units: RelativeTimeUnit[] = ['year', 'month', 'week', 'day', 'hour', 'minute'];
+  const unit = units.find((candidate) => Math.abs(seconds) >= SECONDS_IN[candidate]) ?? 'second';
+  return [Math.round(seconds / SECONDS_IN[unit]), unit];
+}
+
+/**
+ * Format a time relative to now in Uyghur
+ * Pass a value and unit ('3 minutes ago' is -3, 'minute'), or a date to
+ * compare with `options.now` using the largest unit that fits
+ *
+ * @param value - The amount (negative for the past), or a date
+ * @param unit - The unit of the amount
+ * @param options - Options (`script`, `numerals`, `numeric`, `now`)
+ * @returns The relative time
+ *
+ * @example
+ * ```ts
+ * formatRelativeTime(-3, 'minute') // '3 مىنۇت ئىلگىرى'
+ * formatRelativeTime(2, 'day') // '2 كۈندىن كېيىن'
+ * formatRelativeTime(1, 'day') // 'ئەتە'
+ * formatRelativeTime(-3, 'minute', { script: 'latin' }) // '3 minut ilgiri'
+ * formatRelativeTime(new Date(Date.now() - 5 * 60000)) // '5 مىنۇت ئىلگىرى'
+ * ```
+ */
+export function formatRelativeTime(value: number, unit: RelativeTimeUnit, options?: RelativeTimeOptions): string;
+export function formatRelativeTime(date: Date, options?: RelativeTimeOptions): string;
+export function formatRelativeTime(
+  value: number | Date,
+  unitOrOptions?: RelativeTimeUnit | RelativeTimeOptions,
+  maybeOptions?: RelativeTimeOptions
+): string {
+  let amount: number;
+  let unit: RelativeTimeUnit;
+  let options: RelativeTimeOptions | undefined;
+
+  if (value instanceof Date) {
+    options = unitOrOptions as RelativeTimeOptions | undefined;
+    const now = options?.now ?? new Date();
+    [amount, unit] = pickUnit((value.getTime() - now.getTime()) / 1000);
+  } else {
+    amount = value;
+    unit = unitOrOptions as RelativeTimeUnit;
+    options = maybeOptions;
+  }
+
+  if (!Number.isFinite(amount)) {
+    throw new Error(`Invalid relative time: ${amount}`);
+  }
+  if (!Object.hasOwn(UNIT_WORDS, unit)) {
+    throw new Error(`Unknown relative time unit: ${unit}`);
+  }
+
+  const script = options?.script;
+  const word = RELATIVE_WORDS[unit]?.[amount];
+  if ((options?.numeric ?? 'auto') === 'auto' && word !== undefined) {
+    return inScript(word, script);
+  }
+
+  // '3 مىنۇت ئىلگىرى' (3 minutes ago), '2 كۈندىن كېيىن' (after 2 days)
+  const [plain, ablative] = UNIT_WORDS[unit];
+  const phrase = amount < 0 || Object.is(amount, -0) ? `${plain} ئىلگىرى` : `${ablative} كېيىن`;
+
+  return `${formatNumber(Math.abs(amount), options?.numerals)} ${inScript(phrase, script)}`;
+}
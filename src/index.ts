@@ -2,11 +2,26 @@
  * uyghur-utils
  *
  * TypeScript utilities for Uyghur language processing
- * - Transliteration (ULY ↔ Arabic script)
+ * - Transliteration (ULY ↔ Arabic script ↔ Cyrillic)
+ * - Streaming transliteration and normalization
+ * - HTML and Markdown transliteration
+ * - Mixed-content segmentation
+ * - Word and sentence tokenization
+ * - Syllabification and hyphenation
+ * - Punctuation conversion
+ * - Alphabetical collation
  * - Slug generation
  * - Script detection
  * - Text normalization
+ * - Contextual shaping for non-shaping renderers
+ * - Legacy code page and presentation-form decoding
  * - Number conversion
+ * - Spelling out numbers
+ * - Ordinals and number suffixes
+ * - Suffixes with vowel harmony
+ * - Stemming for search
+ * - Date formatting and parsing
+ * - Relative time formatting
  *
  * @packageDocumentation
  */
@@ -17,10 +32,59 @@ export {
   toArabic,
   arabicToLatin,
   latinToArabic,
+  toCyrillic,
+  fromCyrillic,
+  toScheme,
+  fromScheme,
+  registerScheme,
+  getScheme,
+  listSchemes,
   transliterate,
   type TransliterateOptions,
+  type LatinScheme,
 } from './transliterate';
 
+// Streaming
+export {
+  createULYStream,
+  createArabicStream,
+  createNormalizeStream,
+  streamToULY,
+  streamToArabic,
+  streamNormalizeUyghur,
+} from './stream';
+
+// Markup-aware transliteration
+export {
+  transliterateHtml,
+  transliterateMarkdown,
+  type MarkupTransliterateOptions,
+} from './markup';
+
+// Text segmentation
+export {
+  segmentText,
+  isLikelyULY,
+  tokenize,
+  splitSentences,
+  type TextSpan,
+  type SpanType,
+  type SegmentOptions,
+  type Token,
+  type TokenType,
+  type Sentence,
+  type SplitSentencesOptions,
+} from './segment';
+
+// Syllables and hyphenation
+export { syllabify, hyphenate, type HyphenateOptions } from './syllable';
+
+// Punctuation conversion
+export { convertPunctuation } from './punctuation';
+
+// Collation
+export { compareUyghur, sortUyghur, type CollationOptions } from './collate';
+
 // Slug generation
 export {
   generateSlug,
@@ -47,13 +111,29 @@ export {
 // Text normalization
 export {
   normalizeUyghur,
+  foldPresentationForms,
   removeDiacritics,
   removeHamza,
   normalizeForSearch,
   trimAndNormalize,
   areEquivalent,
+  type SearchNormalizeOptions,
 } from './normalize';
 
+// Contextual shaping
+export { shapeUyghur, type ShapeOptions } from './shape';
+
+// Legacy encodings
+export {
+  decodeLegacy,
+  guessLegacyEncoding,
+  registerLegacyEncoding,
+  getLegacyEncoding,
+  listLegacyEncodings,
+  type LegacyEncoding,
+  type DecodeLegacyOptions,
+} from './legacy';
+
 // Number conversion
 export {
   toWesternNumerals,
@@ -61,19 +141,58 @@ export {
   containsArabicIndicNumerals,
   containsWesternNumerals,
   extractNumbers,
+  extractNumberMatches,
   formatNumber,
   parseNumber,
+  toOrdinal,
+  attachSuffixToNumber,
+  type ExtractNumbersOptions,
+  type FormatNumberOptions,
+  type NumberMatch,
+  type OrdinalOptions,
+  type NumberSuffixOptions,
+  type ParseNumberOptions,
 } from './numbers';
 
+// Number spelling
+export { numberToWords, wordsToNumber, type NumberToWordsOptions } from './spell';
+
+// Suffixes
+export { attachSuffix, type AttachSuffixOptions } from './suffix';
+
+// Stemming
+export { stemUyghur } from './stem';
+
+// Dates
+export {
+  formatUyghurDate,
+  parseUyghurDate,
+  formatRelativeTime,
+  type DateFormatOptions,
+  type RelativeTimeOptions,
+  type RelativeTimeUnit,
+} from './date';
+
 // Constants
 export {
   UYGHUR_ARABIC_TO_LATIN,
   LATIN_TO_UYGHUR_ARABIC,
+  ULY_TO_CYRILLIC,
+  CYRILLIC_TO_ULY,
+  ULY_TO_UYY,
+  ULY_TO_ASCII,
+  ARABIC_TO_LATIN_PUNCTUATION,
+  LATIN_TO_ARABIC_PUNCTUATION,
   UYGHUR_ALPHABET_ARABIC,
   UYGHUR_ALPHABET_LATIN,
   UYGHUR_VOWELS_ARABIC,
   UYGHUR_VOWELS_LATIN,
   UYGHUR_CONSONANTS_ARABIC,
+  UYGHUR_BACK_VOWELS_ARABIC,
+  UYGHUR_FRONT_VOWELS_ARABIC,
+  UYGHUR_VOICELESS_CONSONANTS_ARABIC,
   ARABIC_INDIC_NUMERALS,
   WESTERN_TO_ARABIC_INDIC_NUMERALS,
+  UYGHUR_MONTHS_ARABIC,
+  UYGHUR_WEEKDAYS_ARABIC,
 } from './constants';
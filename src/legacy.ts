@@ -0,0 +1,288 @@
+/**
+ * Legacy encoding utilities
+ * Recover Uyghur text stored as Arabic code page bytes or as presentation-form
+ * glyphs, including the glyphs legacy fonts use for Uyghur-only letters and
+ * the heh glyphs they use for ە. Byte layouts of legacy Uyghur fonts (UKIJ,
+ * Bilig, Duldul, ...) are not built in, since they differ between font
+ * versions; register them with `registerLegacyEncoding`.
+ */
+
+import { UYGHUR_ALPHABET_ARABIC, UYGHUR_VOWELS_ARABIC } from './constants';
+import { foldPresentationForms, normalizeUyghur } from './normalize';
+import { reorderLine, shapeUyghur } from './shape';
+
+/**
+ * A legacy encoding: how characters of legacy-encoded text map to Unicode
+ */
+export interface LegacyEncoding {
+  /** Encoding name, used with `decodeLegacy` */
+  name: string;
+  /** Legacy characters (or character sequences) to Unicode text */
+  table: Record<string, string>;
+  /** The text is stored in visual (left-to-right display) order (default: false) */
+  visualOrder?: boolean;
+}
+
+/**
+ * Options for legacy decoding
+ */
+export interface DecodeLegacyOptions {
+  /** Run each decoded line through `normalizeUyghur` (default: true) */
+  normalize?: boolean;
+}
+
+/**
+ * Windows-1256 (Arabic) characters for bytes 0x80–0xFF
+ * The code page has no ۇ ۆ ۈ ې ۋ ە ڭ, so only text written with the letters it
+ * shares with Arabic and Persian (or typed with lookalikes) decodes fully
+ */
+const WINDOWS_1256_HIGH =
+  '\u20ac\u067e\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0679\u2039\u0152\u0686\u0698\u0688' +
+  '\u06af\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u06a9\u2122\u0691\u203a\u0153\u200c\u200d\u06ba' +
+  '\u00a0\u060c\u00a2\u00a3\u00a4\u00a5\u00a6\u00a7\u00a8\u00a9\u06be\u00ab\u00ac\u00ad\u00ae\u00af' +
+  '\u00b0\u00b1\u00b2\u00b3\u00b4\u00b5\u00b6\u00b7\u00b8\u00b9\u061b\u00bb\u00bc\u00bd\u00be\u061f' +
+  '\u06c1\u0621\u0622\u0623\u0624\u0625\u0626\u0627\u0628\u0629\u062a\u062b\u062c\u062d\u062e\u062f' +
+  '\u0630\u0631\u0632\u0633\u0634\u0635\u0636\u00d7\u0637\u0638\u0639\u063a\u0640\u0641\u0642\u0643' +
+  '\u00e0\u0644\u00e2\u0645\u0646\u0647\u0648\u00e7\u00e8\u00e9\u00ea\u00eb\u0649\u064a\u00ee\u00ef' +
+  '\u064b\u064c\u064d\u064e\u00f4\u064f\u0650\u00f7\u0651\u00f9\u0652\u00fb\u00fc\u200e\u200f\u06d2';
+
+/**
+ * Windows-1252 characters for bytes 0x80–0x9F (C1 controls where undefined)
+ */
+const WINDOWS_1252_C1 =
+  '\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f' +
+  '\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178';
+
+/**
+ * Build the table for Windows-1256 text that was decoded as Latin-1 or Windows-1252
+ */
+function buildWindows1256Table(): Record<string, string> {
+  const table: Record<string, string> = {};
+
+  Array.from(WINDOWS_1256_HIGH).forEach((arabic, index) => {
+    const readings = [String.fromCharCode(0x80 + index)];
+    if (index < WINDOWS_1252_C1.length) readings.push(WINDOWS_1252_C1[index]);
+
+    for (const reading of readings) {
+      if (reading !== arabic) table[reading] = arabic;
+    }
+  });
+
+  return table;
+}
+
+/**
+ * Build the table for text typed directly as Arabic presentation forms
+ */
+function buildPresentationFormsTable(): Record<string, string> {
+  const table: Record<string, string> = {};
+  const ranges: Array<[number, number]> = [
+    [0xfb50, 0xfdff],
+    [0xfe70, 0xfefe],
+  ];
+
+  for (const [start, end] of ranges) {
+    for (let code = start; code <= end; code++) {
+      const char = String.fromCharCode(code);
+      const folded = foldPresentationForms(char);
+      if (folded !== char) table[char] = folded;
+    }
+  }
+
+  return table;
+}
+
+const presentationForms = buildPresentationFormsTable();
+
+/**
+ * Registered legacy encodings, by name
+ */
+const encodings = new Map<string, LegacyEncoding>(
+  [
+    // Arabic code page bytes shown as Latin-1 ("ÓáÇã" for سلام)
+    { name: 'windows-1256', table: buildWindows1256Table() },
+    // Contextual glyphs stored as characters, in logical order
+    { name: 'presentation-forms', table: presentationForms },
+    // Contextual glyphs stored in display order, for renderers without bidi support
+    { name: 'presentation-forms-visual', table: presentationForms, visualOrder: true },
+  ].map((encoding): [string, LegacyEncoding] => [encoding.name, encoding])
+);
+
+/**
+ * Register a legacy encoding, e.g. the character layout of a legacy Uyghur font
+ * Registering an existing name replaces it. Font layouts usually reuse a code
+ * page and put the Uyghur-only letters (ۇ ۆ ۈ ې ۋ ە ڭ) on spare positions.
+ *
+ * @param encoding - The legacy encoding
+ *
+ * @example
+ * ```ts
+ * registerLegacyEncoding({
+ *   name: 'my-font',
+ *   table: { ...getLegacyEncoding('windows-1256')!.table, 'ü': 'ۈ', 'ö': 'ۆ', 'é': 'ې', 'ç': 'ۇ' },
+ * });
+ * decodeLegacy(text, 'my-font');
+ * ```
+ */
+export function registerLegacyEncoding(encoding: LegacyEncoding): void {
+  encodings.set(encoding.name, encoding);
+}
+
+/**
+ * Get a registered legacy encoding by name
+ *
+ * @param name - The encoding name
+ * @returns The encoding, or undefined if it is not registered
+ */
+export function getLegacyEncoding(name: string): LegacyEncoding | undefined {
+  return encodings.get(name);
+}
+
+/**
+ * List the names of the registered legacy encodings
+ *
+ * @returns Encoding names, in registration order
+ */
+export function listLegacyEncodings(): string[] {
+  return [...encodings.keys()];
+}
+
+/**
+ * Look up an encoding by name, or use a given encoding object as is
+ */
+function resolveEncoding(encoding: string | LegacyEncoding): LegacyEncoding {
+  if (typeof encoding !== 'string') return encoding;
+
+  const resolved = encodings.get(encoding);
+  if (!resolved) {
+    throw new Error(`Unknown legacy encoding: ${encoding}`);
+  }
+  return resolved;
+}
+
+/**
+ * Replace legacy characters with Unicode, preferring the longest table entry
+ * Returns one unit per legacy character (or sequence), with combining marks
+ * attached to the unit before them
+ */
+function mapCharacters(text: string, table: Record<string, string>): string[] {
+  const maxLength = Math.max(1, ...Object.keys(table).map((key) => key.length));
+  const units: string[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    let length = Math.min(maxLength, text.length - i);
+    while (length > 1 && table[text.slice(i, i + length)] === undefined) length--;
+
+    const source = text.slice(i, i + length);
+    const unit = table[source] ?? source;
+    i += length;
+
+    if (units.length > 0 && /^\p{M}/u.test(unit)) units[units.length - 1] += unit;
+    else units.push(unit);
+  }
+
+  return units;
+}
+
+/**
+ * Decode text stored in a legacy encoding into Unicode Uyghur
+ *
+ * @param text - The legacy-encoded text
+ * @param encoding - Encoding name, encoding object, or 'auto' to guess it (default: 'auto')
+ * @param options - Decoding options (`normalize`)
+ * @returns The Unicode text, or the input unchanged when 'auto' finds no legacy encoding
+ *
+ * @example
+ * ```ts
+ * decodeLegacy('ÓáÇã', 'windows-1256') // 'سلام'
+ * decodeLegacy('ﻡﻻﺎﺳ', 'presentation-forms-visual') // 'سالام'
+ * decodeLegacy('ﺳﺎﻻﻡ') // 'سالام' (encoding guessed)
+ * ```
+ */
+export function decodeLegacy(
+  text: string,
+  encoding: string | LegacyEncoding = 'auto',
+  options?: DecodeLegacyOptions
+): string {
+  if (!text) return '';
+
+  const name = encoding === 'auto' ? guessLegacyEncoding(text) : encoding;
+  if (name === undefined) return text;
+
+  const resolved = resolveEncoding(name);
+  const normalize = options?.normalize ?? true;
+
+  return text
+    .split(/(\r?\n)/)
+    .map((line, index) => {
+      if (index % 2 === 1) return line;
+
+      // Reorder whole units so ligatures keep their logical letter order
+      const units = mapCharacters(line, resolved.table);
+      const result = resolved.visualOrder ? reorderLine(units, 'R') : units.join('');
+      return normalize ? normalizeUyghur(result) : result;
+    })
+    .join('');
+}
+
+const UYGHUR_LETTERS = new Set<string>([...UYGHUR_ALPHABET_ARABIC, 'ئ']);
+const UYGHUR_VOWELS = new Set<string>(UYGHUR_VOWELS_ARABIC);
+
+/**
+ * Score how much decoded text looks like Uyghur (higher is better)
+ * Combines the share of Uyghur letters with the share of words that are
+ * well formed: Uyghur words never start with a bare vowel or end with hamza,
+ * which is what text decoded in the wrong order looks like
+ */
+function uyghurScore(text: string): number {
+  const chars = Array.from(text.replace(/[\s\x00-\x7f]/g, ''));
+  const words = text.match(/\p{Script=Arabic}+/gu) ?? [];
+  if (chars.length === 0 || words.length === 0) return 0;
+
+  const letters = chars.filter((char) => UYGHUR_LETTERS.has(char)).length;
+  const malformed = words.filter((word) => UYGHUR_VOWELS.has(word[0]) || word.endsWith('ئ')).length;
+
+  return letters / chars.length - malformed / words.length;
+}
+
+/**
+ * Guess which registered legacy encoding a text uses
+ * Encodings that map most of the non-ASCII characters are decoded and the one
+ * whose output looks most like Uyghur wins. Text stored as glyphs is preferred
+ * in the order that shapes back into exactly the input.
+ *
+ * @param text - The text to inspect
+ * @returns The encoding name, or undefined if the text does not look legacy-encoded
+ *
+ * @example
+ * ```ts
+ * guessLegacyEncoding('ÓáÇã ÏäíÇ') // 'windows-1256'
+ * guessLegacyEncoding('ﺳﺎﻻﻡ') // 'presentation-forms'
+ * guessLegacyEncoding('سالام') // undefined (already Unicode)
+ * ```
+ */
+export function guessLegacyEncoding(text: string): string | undefined {
+  const chars = Array.from(text.replace(/[\s\x00-\x7f]/g, ''));
+  if (chars.length === 0) return undefined;
+
+  // Text that is mostly Unicode Arabic letters is not legacy-encoded
+  const unicodeArabic = chars.filter((char) => /[\u0600-\u06ff]/.test(char)).length;
+  if (unicodeArabic / chars.length > 0.5) return undefined;
+
+  let best: { name: string; score: number } | undefined;
+
+  for (const encoding of encodings.values()) {
+    const mapped = chars.filter((char) => char in encoding.table).length;
+    if (mapped / chars.length < 0.5) continue;
+
+    const decoded = decodeLegacy(text, encoding, { normalize: false });
+    const reshaped = shapeUyghur(decoded, { visualOrder: encoding.visualOrder }) === text;
+    const score = uyghurScore(normalizeUyghur(decoded)) + (reshaped ? 0.5 : 0);
+    if (score > 0.5 && (!best || score > best.score)) {
+      best = { name: encoding.name, score };
+    }
+  }
+
+  return best?.name;
+}
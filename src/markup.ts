@@ -0,0 +1,275 @@
+/**
+ * Markup-aware transliteration utilities
+ * Transliterate the text of HTML and Markdown documents while keeping markup intact
+ */
+
+import { containsArabicScript } from './detect';
+import { resolveTarget, transliterateSpans, type TransliterateOptions } from './transliterate';
+
+/**
+ * Options for HTML and Markdown transliteration
+ */
+export interface MarkupTransliterateOptions extends TransliterateOptions {
+  /**
+   * Update `dir` and `lang="ug-*"` attributes to match the target script (default: false)
+   * `dir` is only changed on elements with a Uyghur `lang`, or from `rtl` when converting to Latin
+   */
+  updateAttributes?: boolean;
+}
+
+/**
+ * A piece of a document that is either transliterated or kept as is
+ */
+interface MarkupPart {
+  text: string;
+  convert: boolean;
+}
+
+/**
+ * HTML tokens that are never transliterated: comments, raw-text elements,
+ * doctype/processing instructions and tags (attribute values may contain `>` in quotes)
+ */
+const HTML_TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<(script|style|textarea)\b[^>]*>[\s\S]*?<\/\1\s*>|<\/?[a-zA-Z][^\s/>]*(?:[^>"']|"[^"]*"|'[^']*')*>|<![^>]*>|<\?[\s\S]*?\?>/gi;
+
+/**
+ * Elements whose text content is code and is kept as is
+ */
+const CODE_ELEMENTS = new Set(['code', 'pre', 'kbd', 'samp', 'var']);
+
+/**
+ * HTML character references
+ */
+const HTML_ENTITY_PATTERN = /&(?:#\d+|#x[0-9a-f]+|[a-z][a-z0-9]*);/gi;
+
+/**
+ * Markdown constructs kept as is: reference definitions, inline code, link
+ * destinations, HTML comments and tags (including autolinks), footnote references
+ */
+const MARKDOWN_PROTECTED_PATTERN =
+  /^ {0,3}\[[^\]\n]+\]:[^\n]*|(`+)[^\n]*?\1|\]\([^)\n]*\)|<!--[\s\S]*?-->|<[^>\n]+>|\[\^[^\]\n]+\]/gm;
+
+/**
+ * Front matter (YAML `---` or TOML `+++`) at the start of a Markdown document
+ */
+const FRONT_MATTER_PATTERN = /^(---|\+\+\+)[ \t]*\r?\n[\s\S]*?\r?\n\1[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Opening or closing line of a fenced code block
+ */
+const CODE_FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Line of an indented code block (four spaces or a tab)
+ */
+const INDENTED_CODE_PATTERN = /^(?: {4}|\t)/;
+
+/**
+ * First line of a list item, whose continuation lines are indented prose
+ */
+const LIST_ITEM_PATTERN = /^ {0,3}(?:[-*+]|\d{1,9}[.)])(?:[ \t]|\r?\n|$)/;
+
+/**
+ * Block-level tags, which start a new sentence for `preserveCase`
+ */
+const BLOCK_TAG_PATTERN =
+  /^<\/?(?:address|article|aside|blockquote|body|br|caption|dd|div|dl|dt|figcaption|figure|footer|h[1-6]|head|header|hr|html|li|main|nav|ol|p|section|table|td|th|title|tr|ul)\b/i;
+
+/**
+ * Split text into parts around the matches of a pattern, which are kept as is
+ */
+function splitProtected(text: string, pattern: RegExp): MarkupPart[] {
+  const parts: MarkupPart[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    if (start > last) parts.push({ text: text.slice(last, start), convert: true });
+    parts.push({ text: match[0], convert: false });
+    last = start + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), convert: true });
+
+  return parts;
+}
+
+/**
+ * Update `dir` and `lang` attributes of a tag for the target script
+ */
+function updateTagAttributes(tag: string, target: 'latin' | 'arabic' | 'cyrillic'): string {
+  const langPattern = /(\blang\s*=\s*["']?)ug(?:-(?:Arab|Latn|Cyrl))?(?=["'\s>/])/i;
+  const isUyghur = langPattern.test(tag);
+  const lang = { latin: 'ug-Latn', arabic: 'ug-Arab', cyrillic: 'ug-Cyrl' }[target];
+  const dir = target === 'arabic' ? 'rtl' : 'ltr';
+
+  let result = tag.replace(langPattern, (_, before: string) => before + lang);
+  result = result.replace(/(\bdir\s*=\s*["']?)(rtl|ltr)\b/i, (match, before: string, value: string) =>
+    isUyghur || (dir === 'ltr' && value.toLowerCase() === 'rtl') ? before + dir : match
+  );
+
+  return result;
+}
+
+/**
+ * Detect the target script of a document: Latin for Arabic-script text,
+ * Arabic otherwise; without any text, from a Uyghur `lang` attribute
+ */
+function detectTarget(parts: MarkupPart[]): 'latin' | 'arabic' {
+  const text = parts
+    .filter((part) => part.convert)
+    .map((part) => part.text)
+    .join(' ');
+  if (containsArabicScript(text)) return 'latin';
+  if (/\p{L}/u.test(text)) return 'arabic';
+
+  const tags = parts.filter((part) => !part.convert && /^<[a-zA-Z]/.test(part.text));
+  const lang = tags.map((part) => /\blang\s*=\s*["']?ug-(Arab|Latn|Cyrl)\b/i.exec(part.text)?.[1]).find(Boolean);
+  return lang?.toLowerCase() === 'arab' ? 'latin' : 'arabic';
+}
+
+/**
+ * Transliterate the convertible parts of a document in a single direction
+ */
+function transliterateParts(parts: MarkupPart[], options?: MarkupTransliterateOptions): string {
+  const target = resolveTarget(options) ?? detectTarget(parts);
+  const partOptions: TransliterateOptions = { ...options, target, mixedContent: true };
+  const scheme = options?.scheme ?? 'uly';
+  // Sentence starts carry across text nodes ('سالام <b>دۇنيا</b>' → 'Salam <b>dunya</b>')
+  const state = { sentenceStart: true };
+
+  return parts
+    .map((part) => {
+      if (part.convert) return transliterateSpans(part.text, target, scheme, partOptions, state);
+      if (BLOCK_TAG_PATTERN.test(part.text)) state.sentenceStart = true;
+      if (options?.updateAttributes && /^<[a-zA-Z]/.test(part.text)) {
+        return updateTagAttributes(part.text, target);
+      }
+      return part.text;
+    })
+    .join('');
+}
+
+/**
+ * Split HTML into text nodes and markup
+ */
+function splitHtml(html: string): MarkupPart[] {
+  const parts: MarkupPart[] = [];
+  let codeDepth = 0;
+
+  for (const part of splitProtected(html, HTML_TOKEN_PATTERN)) {
+    if (!part.convert) {
+      const tag = /^<(\/?)([a-zA-Z][^\s/>]*)/.exec(part.text);
+      if (tag && CODE_ELEMENTS.has(tag[2].toLowerCase()) && !part.text.endsWith('/>')) {
+        codeDepth = Math.max(0, codeDepth + (tag[1] ? -1 : 1));
+      }
+      parts.push(part);
+    } else if (codeDepth > 0) {
+      parts.push({ text: part.text, convert: false });
+    } else {
+      parts.push(...splitProtected(part.text, HTML_ENTITY_PATTERN));
+    }
+  }
+
+  return parts;
+}
+
+/**
+ * Split Markdown into prose and protected constructs
+ */
+function splitMarkdown(markdown: string): MarkupPart[] {
+  const parts: MarkupPart[] = [];
+  let body = markdown;
+
+  const frontMatter = FRONT_MATTER_PATTERN.exec(body);
+  if (frontMatter) {
+    parts.push({ text: frontMatter[0], convert: false });
+    body = body.slice(frontMatter[0].length);
+  }
+
+  let fence: string | undefined;
+  let prose = '';
+  // Indented code cannot interrupt a paragraph and is prose inside a list
+  let afterBlank = true;
+  let inList = false;
+  let indented = false;
+
+  for (const line of body.split(/(?<=\n)/)) {
+    const marker = CODE_FENCE_PATTERN.exec(line)?.[1];
+    const blank = !line.trim();
+
+    if (fence === undefined && INDENTED_CODE_PATTERN.test(line) && !blank && (indented || (afterBlank && !inList))) {
+      if (!indented) {
+        parts.push(...splitProtected(prose, MARKDOWN_PROTECTED_PATTERN));
+        prose = '';
+        indented = true;
+      }
+      parts.push({ text: line, convert: false });
+    } else if (indented && blank) {
+      parts.push({ text: line, convert: false });
+    } else if (fence === undefined && marker) {
+      indented = false;
+      parts.push(...splitProtected(prose, MARKDOWN_PROTECTED_PATTERN));
+      prose = '';
+      fence = marker;
+      parts.push({ text: line, convert: false });
+    } else if (fence !== undefined) {
+      // A closing fence uses the same character and is at least as long
+      if (marker && marker[0] === fence[0] && marker.length >= fence.length && !line.trim().slice(marker.length)) {
+        fence = undefined;
+      }
+      parts.push({ text: line, convert: false });
+    } else {
+      indented = false;
+      prose += line;
+    }
+
+    if (fence === undefined && !indented && !blank && !INDENTED_CODE_PATTERN.test(line)) {
+      inList = LIST_ITEM_PATTERN.test(line);
+    }
+    afterBlank = blank;
+  }
+  parts.push(...splitProtected(prose, MARKDOWN_PROTECTED_PATTERN));
+
+  return parts;
+}
+
+/**
+ * Transliterate the text nodes of an HTML document or fragment
+ * Tags, attributes, comments, entities and the content of `script`, `style`,
+ * `textarea` and code elements (`code`, `pre`, `kbd`, `samp`, `var`) are kept intact
+ *
+ * @param html - The HTML to transliterate
+ * @param options - Transliteration options
+ * @returns The HTML with transliterated text
+ *
+ * @example
+ * ```ts
+ * transliterateHtml('<p class="lead">سالام <code>x</code></p>') // '<p class="lead">salam <code>x</code></p>'
+ * transliterateHtml('<html dir="rtl" lang="ug-Arab">', { updateAttributes: true })
+ * // '<html dir="ltr" lang="ug-Latn">'
+ * ```
+ */
+export function transliterateHtml(html: string, options?: MarkupTransliterateOptions): string {
+  if (!html) return '';
+  return transliterateParts(splitHtml(html), options);
+}
+
+/**
+ * Transliterate the prose of a Markdown document
+ * Front matter, fenced, indented and inline code, link destinations, reference
+ * definitions, footnote references and inline HTML tags are kept intact
+ *
+ * @param markdown - The Markdown to transliterate
+ * @param options - Transliteration options
+ * @returns The Markdown with transliterated prose
+ *
+ * @example
+ * ```ts
+ * transliterateMarkdown('# سالام\n\n[كىتاب](https://example.com)')
+ * // '# salam\n\n[kitab](https://example.com)'
+ * ```
+ */
+export function transliterateMarkdown(markdown: string, options?: MarkupTransliterateOptions): string {
+  if (!markdown) return '';
+  return transliterateParts(splitMarkdown(markdown), options);
+}
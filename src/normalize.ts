@@ -3,6 +3,17 @@
  * Normalize Uyghur text for consistent processing
  */
 
+import { isLikelyULY } from './segment';
+import { stemUyghur } from './stem';
+
+/**
+ * Options for search normalization
+ */
+export interface SearchNormalizeOptions {
+  /** Reduce Arabic-script and ULY words to their stems with `stemUyghur` (default: false) */
+  stem?: boolean;
+}
+
 /**
  * Common character variations that should be normalized
  */
@@ -29,9 +40,60 @@ const CHAR_NORMALIZATIONS: Record<string, string> = {
   '\ufeff': '', // BOM
 };
 
+/**
+ * Arabic Presentation Forms-A (U+FB50–U+FDFF) and -B (U+FE70–U+FEFF, except BOM)
+ */
+const PRESENTATION_FORM_PATTERN = /[\ufb50-\ufdff\ufe70-\ufefe]/g;
+
+/**
+ * Presentation forms whose Uyghur reading differs from their Unicode decomposition
+ */
+const UYGHUR_PRESENTATION_FORMS: Record<string, string> = {
+  // Final and isolated heh are the glyphs of Uyghur ae (ە has no presentation forms)
+  '\ufee9': 'ە',
+  '\ufeea': 'ە',
+  // Initial and medial heh are the glyphs of Uyghur heh
+  '\ufeeb': 'ھ',
+  '\ufeec': 'ھ',
+  // Keheh to Uyghur kaf
+  '\ufb8e': 'ك',
+  '\ufb8f': 'ك',
+  '\ufb90': 'ك',
+  '\ufb91': 'ك',
+  // Farsi yeh: dotless when final or isolated (i), dotted otherwise (y)
+  '\ufbfc': 'ى',
+  '\ufbfd': 'ى',
+  '\ufbfe': 'ي',
+  '\ufbff': 'ي',
+};
+
+/**
+ * Fold Arabic presentation forms into base letters
+ * Text extracted from PDFs and legacy applications often contains contextual
+ * glyph forms (ﺳ, ﯗ) and ligatures (ﻻ, ﯪ) instead of the letters themselves
+ *
+ * @param text - The text to fold
+ * @returns Text with presentation forms replaced by base letters
+ *
+ * @example
+ * ```ts
+ * foldPresentationForms('ﺳﺎﻻﻡ') // 'سالام'
+ * foldPresentationForms('ﯪﻟﻤﺎ') // 'ئالما'
+ * ```
+ */
+export function foldPresentationForms(text: string): string {
+  if (!text) return '';
+
+  return text.replace(PRESENTATION_FORM_PATTERN, (char) => {
+    const folded = UYGHUR_PRESENTATION_FORMS[char] ?? char.normalize('NFKC');
+    // Isolated harakat forms decompose to a space followed by the mark
+    return folded.replace(/^ (?=\p{M})/u, '');
+  });
+}
+
 /**
  * Normalize Uyghur text for consistent processing
- * Handles various character encoding inconsistencies
+ * Handles various character encoding inconsistencies and presentation forms
  *
  * @param text - The text to normalize
  * @returns Normalized text
@@ -39,12 +101,14 @@ const CHAR_NORMALIZATIONS: Record<string, string> = {
  * @example
  * ```ts
  * normalizeUyghur('سالام\u200c') // 'سالام' (removes ZWNJ)
+ * normalizeUyghur('ﺳﺎﻻﻡ') // 'سالام' (folds presentation forms)
  * ```
  */
 export function normalizeUyghur(text: string): string {
   if (!text) return '';
 
-  let result = text;
+  // Fold presentation forms into base letters
+  let result = foldPresentationForms(text);
 
   // Apply Unicode NFC normalization
   result = result.normalize('NFC');
@@ -96,15 +160,17 @@ export function removeHamza(text: string): string {
  * More aggressive normalization for fuzzy matching
  *
  * @param text - The text to normalize
+ * @param options - Normalization options (`stem`)
  * @returns Search-normalized text
  *
  * @example
  * ```ts
  * normalizeForSearch('ئۇيغۇرچە') // 'ۇيغۇرچە'
  * normalizeForSearch('HELLO') // 'hello'
+ * normalizeForSearch('كىتابلىرىمىزدىن', { stem: true }) // 'كىتاب'
  * ```
  */
-export function normalizeForSearch(text: string): string {
+export function normalizeForSearch(text: string, options?: SearchNormalizeOptions): string {
   if (!text) return '';
 
   let result = normalizeUyghur(text);
@@ -112,6 +178,13 @@ export function normalizeForSearch(text: string): string {
   // Remove diacritics
   result = removeDiacritics(result);
 
+  // Stem Uyghur words before hamza removal, so stems match `stemUyghur`
+  if (options?.stem) {
+    result = result.replace(/[\p{L}\p{M}]+(?:'[\p{L}\p{M}]+)*/gu, (word) =>
+      /\p{Script=Arabic}/u.test(word) || isLikelyULY(word) ? stemUyghur(word) : word
+    );
+  }
+
   // Remove hamza
   result = removeHamza(result);
 
@@ -8,6 +8,77 @@ import {
   WESTERN_TO_ARABIC_INDIC_NUMERALS,
   EXTENDED_ARABIC_INDIC_NUMERALS,
 } from './constants/alphabet';
+import { isNumberWord, numberToWords, wordsToNumber } from './spell';
+import { suffixVariant } from './suffix';
+import { toCyrillic, toULY } from './transliterate';
+
+/**
+ * Options for extracting numbers
+ */
+export interface ExtractNumbersOptions {
+  /** Also recognise spelled-out numbers in Arabic script, ULY and Cyrillic (default: false) */
+  words?: boolean;
+}
+
+/**
+ * Options for formatting numbers
+ */
+export interface FormatNumberOptions {
+  /** Numeral system (default: 'western') */
+  system?: 'western' | 'arabic-indic';
+  /** Group thousands (default: false) */
+  grouping?: boolean;
+  /** Thousands separator (default: ',' or '٬' for Arabic-Indic numerals) */
+  groupSeparator?: string;
+  /** Decimal separator (default: '.' or '٫' for Arabic-Indic numerals) */
+  decimalSeparator?: string;
+  /** Exact number of fraction digits (default: as many as needed, 2 for currencies) */
+  fractionDigits?: number;
+  /** 'percent' multiplies by 100 and adds a percent sign (default: 'decimal') */
+  style?: 'decimal' | 'percent' | 'currency';
+  /** ISO currency code: CNY, KGS, UZS, KZT, RUB, USD or EUR (default: 'CNY') */
+  currency?: string;
+  /** Show the currency name ('يۈەن') or symbol ('¥') (default: 'name') */
+  currencyDisplay?: 'name' | 'symbol';
+  /** Script of currency names (default: 'arabic') */
+  script?: 'arabic' | 'latin' | 'cyrillic';
+  /** When to show a sign (default: 'auto', only for negatives) */
+  signDisplay?: 'auto' | 'always' | 'never';
+  /** Where the sign goes (default: 'before') */
+  signPosition?: 'before' | 'after';
+}
+
+/**
+ * Options for parsing numbers
+ * Pass the same separators and sign position that were used to format the number
+ */
+export interface ParseNumberOptions
+  extends Pick<FormatNumberOptions, 'groupSeparator' | 'decimalSeparator' | 'signPosition'> {
+  /** Require the whole text to be a number, so '12abc' is NaN rather than 12 (default: false) */
+  strict?: boolean;
+}
+
+/**
+ * Options for ordinal numbers
+ */
+export interface OrdinalOptions {
+  /** 'hyphen' for numerals ('5-'), 'word' for spelled-out ordinals ('بەشىنچى') (default: 'hyphen') */
+  style?: 'hyphen' | 'word';
+  /** Numeral system for the hyphen style (default: 'western') */
+  system?: 'western' | 'arabic-indic';
+  /** Script for the word style (default: 'arabic') */
+  script?: 'arabic' | 'latin' | 'cyrillic';
+}
+
+/**
+ * Options for attaching suffixes to numbers
+ */
+export interface NumberSuffixOptions {
+  /** Numeral system (default: 'western') */
+  system?: 'western' | 'arabic-indic';
+  /** Text between the number and the suffix (default: ' ') */
+  separator?: string;
+}
 
 /**
  * Convert Arabic-Indic numerals to Western numerals
@@ -88,73 +159,390 @@ export function containsWesternNumerals(text: string): boolean {
 }
 
 /**
- * Extract all numbers from text (as Western numerals)
+ * A number found in text
+ */
+export interface NumberMatch {
+  /** The number, or the start of a range */
+  value: number;
+  /** The end of a range such as '5-10' */
+  to?: number;
+  /** The text as it appears in the input */
+  text: string;
+  /** How the number is written */
+  system: 'western' | 'arabic-indic' | 'words';
+  /** Offset of the first character in the input */
+  start: number;
+  /** Offset after the last character in the input */
+  end: number;
+}
+
+/**
+ * Digits with optional grouping ('1,250', '١٬٢٥٠') and decimals ('3.5', '٣٫٥')
+ */
+const NUMERAL = String.raw`(?:\d{1,3}(?:[,٬]\d{3})+|\d+)(?:[.٫]\d+)?(?!\d)`;
+
+/**
+ * A numeral with a sign (not after a letter or digit, so '2024-05' is not negative)
+ * or a range ('5-10', but no part of a date such as '2024-05-12')
+ */
+const NUMBER_PATTERN = new RegExp(
+  String.raw`(?<from>(?:(?<![\p{L}\p{N}])[-−])?(?<![\p{N}.٫])${NUMERAL})(?:(?<!\p{N}[-–][\d.,٫٬]*)[-–](?<to>${NUMERAL})(?![-–]\d))?`,
+  'gu'
+);
+
+/**
+ * A word of a run of number words, with its position
+ */
+interface WordToken {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse a run of number words into as few numbers as possible
+ * 'بەش ئالتە' is two numbers (5, 6) since it does not spell a single one
+ */
+function parseWordRun(input: string, words: WordToken[]): NumberMatch[] {
+  const matches: NumberMatch[] = [];
+  const spell = (from: number, to: number) => wordsToNumber(words.slice(from, to).map((word) => word.text).join(' '));
+  let start = 0;
+
+  while (start < words.length) {
+    let end = words.length;
+    while (end > start && Number.isNaN(spell(start, end))) end--;
+
+    if (end === start) {
+      // A word that cannot start a number ('پۈتۈن' on its own)
+      start++;
+    } else {
+      const [first, last] = [words[start].start, words[end - 1].end];
+      matches.push({ value: spell(start, end), text: input.slice(first, last), system: 'words', start: first, end: last });
+      start = end;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Find all numbers in text, with where and how they are written
+ * Handles signs, decimals and grouping in Western and Arabic-Indic forms
+ * ('-12', '3.5', '١٬٢٥٠', '٣٫٥') and ranges ('5-10')
  *
- * @param text - Text to extract numbers from
- * @returns Array of numbers found in the text
+ * @param text - Text to search
+ * @param options - Extraction options (`words`)
+ * @returns The numbers found, in order
  *
  * @example
  * ```ts
- * extractNumbers('٢٠٢٤-يىل ٥-ئاي') // [2024, 5]
- * extractNumbers('Page 123 of 456') // [123, 456]
+ * extractNumberMatches('باھاسى ٣٫٥ يۈەن')
+ * // [{ value: 3.5, text: '٣٫٥', system: 'arabic-indic', start: 7, end: 10 }]
+ * extractNumberMatches('5-10 kün')
+ * // [{ value: 5, to: 10, text: '5-10', system: 'western', start: 0, end: 4 }]
  * ```
  */
-export function extractNumbers(text: string): number[] {
+export function extractNumberMatches(text: string, options?: ExtractNumbersOptions): NumberMatch[] {
   if (!text) return [];
 
-  // First convert all numerals to Western
+  // Digit conversion keeps offsets: every digit is a single UTF-16 unit
   const westernText = toWesternNumerals(text);
+  const matches: NumberMatch[] = [];
+
+  for (const match of westernText.matchAll(NUMBER_PATTERN)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const raw = text.slice(start, end);
+    const { from, to } = match.groups!;
+
+    matches.push({
+      value: parseNumber(from),
+      ...(to !== undefined && { to: parseNumber(to) }),
+      text: raw,
+      system: containsArabicIndicNumerals(raw) ? 'arabic-indic' : 'western',
+      start,
+      end,
+    });
+  }
+
+  if (!options?.words) return matches;
+
+  let run: WordToken[] = [];
+  const flush = () => {
+    matches.push(...parseWordRun(text, run));
+    run = [];
+  };
+
+  for (const match of text.matchAll(/[\p{L}\p{M}]+/gu)) {
+    const token = { text: match[0], start: match.index ?? 0, end: (match.index ?? 0) + match[0].length };
 
-  // Extract all number sequences
-  const matches = westernText.match(/\d+/g);
+    if (!isNumberWord(token.text)) {
+      flush();
+      continue;
+    }
 
-  if (!matches) return [];
+    // Number words continue a run only when separated by whitespace
+    if (run.length > 0 && !/^\s+$/.test(text.slice(run[run.length - 1].end, token.start))) flush();
+    run.push(token);
+  }
+  flush();
 
-  return matches.map((m) => parseInt(m, 10));
+  return matches.sort((a, b) => a.start - b.start);
 }
 
 /**
- * Format a number with the specified numeral system
+ * Extract all numbers from text (as Western numerals)
+ * Both ends of a range ('5-10') are included
+ *
+ * @param text - Text to extract numbers from
+ * @param options - Extraction options (`words`)
+ * @returns Array of numbers found in the text, in order
+ *
+ * @example
+ * ```ts
+ * extractNumbers('٢٠٢٤-يىل ٥-ئاي') // [2024, 5]
+ * extractNumbers('Page 123 of 456') // [123, 456]
+ * extractNumbers('-12, 3.5 we 1,250') // [-12, 3.5, 1250]
+ * extractNumbers('ئۈچ يۈز ئەللىك بەش كىشى، 12 ئۆي', { words: true }) // [355, 12]
+ * ```
+ */
+export function extractNumbers(text: string, options?: ExtractNumbersOptions): number[] {
+  return extractNumberMatches(text, options).flatMap((match) =>
+    match.to === undefined ? [match.value] : [match.value, match.to]
+  );
+}
+
+/**
+ * Currency names (Arabic script) and symbols, by ISO code
+ */
+const CURRENCIES: Record<string, { name: string; symbol: string; symbolAfter?: boolean }> = {
+  CNY: { name: 'يۈەن', symbol: '¥' },
+  KGS: { name: 'سوم', symbol: 'сом', symbolAfter: true },
+  UZS: { name: 'سوم', symbol: 'soʻm', symbolAfter: true },
+  KZT: { name: 'تەڭگە', symbol: '₸', symbolAfter: true },
+  RUB: { name: 'رۇبلى', symbol: '₽', symbolAfter: true },
+  USD: { name: 'دوللار', symbol: '$' },
+  EUR: { name: 'ياۋرو', symbol: '€' },
+};
+
+/**
+ * Write a currency name in a script
+ */
+function currencyName(name: string, script: FormatNumberOptions['script']): string {
+  if (script === 'latin') return toULY(name);
+  if (script === 'cyrillic') return toCyrillic(name);
+  return name;
+}
+
+/**
+ * Currency names in every script and symbols, longest first, for parsing
+ */
+const CURRENCY_MARKERS = [
+  ...new Set(
+    Object.values(CURRENCIES).flatMap(({ name, symbol }) => [
+      name,
+      currencyName(name, 'latin'),
+      currencyName(name, 'cyrillic'),
+      symbol,
+    ])
+  ),
+].sort((a, b) => b.length - a.length);
+
+/**
+ * Format a number with the specified numeral system, or with formatting options
+ * Arabic-Indic numbers use the Arabic decimal (٫) and thousands (٬) separators
+ * and percent sign (٪). Percentages are given as fractions (0.5 is 50%).
  *
  * @param num - Number to format
- * @param system - Numeral system ('western' or 'arabic-indic')
+ * @param options - Numeral system ('western' or 'arabic-indic'), or formatting options
  * @returns Formatted number string
  *
  * @example
  * ```ts
  * formatNumber(2024, 'arabic-indic') // '٢٠٢٤'
  * formatNumber(2024, 'western') // '2024'
+ * formatNumber(1234567.5, { system: 'arabic-indic', grouping: true }) // '١٬٢٣٤٬٥٦٧٫٥'
+ * formatNumber(0.125, { style: 'percent', fractionDigits: 1 }) // '12.5%'
+ * formatNumber(1234.5, { style: 'currency', grouping: true }) // '1,234.50 يۈەن'
+ * formatNumber(99, { style: 'currency', currency: 'KZT', script: 'latin' }) // '99.00 tengge'
+ * formatNumber(-5, { signPosition: 'after' }) // '5-'
  * ```
  */
 export function formatNumber(
   num: number,
-  system: 'western' | 'arabic-indic' = 'western'
+  options: 'western' | 'arabic-indic' | FormatNumberOptions = 'western'
 ): string {
-  const str = String(num);
+  const {
+    system = 'western',
+    grouping = false,
+    groupSeparator = system === 'arabic-indic' ? '٬' : ',',
+    decimalSeparator = system === 'arabic-indic' ? '٫' : '.',
+    style = 'decimal',
+    currency = 'CNY',
+    currencyDisplay = 'name',
+    signDisplay = 'auto',
+    signPosition = 'before',
+    fractionDigits,
+    script,
+  } = typeof options === 'string' ? { system: options } : options;
+
+  if (!Number.isFinite(num)) return String(num);
+
+  const arabicIndic = system === 'arabic-indic';
+
+  const currencyInfo = CURRENCIES[currency];
+  if (style === 'currency' && !currencyInfo) {
+    throw new Error(`Unknown currency: ${currency}`);
+  }
+
+  // Scale percentages without floating-point noise (0.07 * 100 = 7.000000000000001)
+  const value = style === 'percent' ? Number.parseFloat((num * 100).toPrecision(15)) : num;
+  const digits = fractionDigits ?? (style === 'currency' ? 2 : undefined);
+  const [integer, fraction] = Math.abs(value)
+    .toLocaleString('en-US', {
+      useGrouping: false,
+      minimumFractionDigits: digits ?? 0,
+      maximumFractionDigits: digits ?? 20,
+    })
+    .split('.');
 
-  if (system === 'arabic-indic') {
-    return toArabicIndicNumerals(str);
+  let body = grouping ? integer.replace(/\B(?=(\d{3})+(?!\d))/g, groupSeparator) : integer;
+  if (fraction) body += decimalSeparator + fraction;
+  if (arabicIndic) body = toArabicIndicNumerals(body);
+
+  if (style === 'percent') body += arabicIndic ? '٪' : '%';
+  if (style === 'currency' && currencyDisplay === 'symbol') {
+    body = currencyInfo.symbolAfter ? `${body} ${currencyInfo.symbol}` : currencyInfo.symbol + body;
+  }
+
+  // A number that rounds to zero has no sign
+  const negative = value < 0 && /[1-9]/.test(integer + (fraction ?? ''));
+  const sign = signDisplay === 'never' ? '' : negative ? '-' : signDisplay === 'always' ? '+' : '';
+  let result = signPosition === 'after' ? body + sign : sign + body;
+
+  if (style === 'currency' && currencyDisplay === 'name') {
+    result += ' ' + currencyName(currencyInfo.name, script);
   }
 
-  return str;
+  return result;
 }
 
 /**
  * Parse a number from text (handles both numeral systems)
+ * Accepts everything `formatNumber` produces: grouping and Arabic separators,
+ * signs, percentages (returned as fractions) and currencies. The number at
+ * the start of the text is read and the rest ignored ('2024-يىل' → 2024);
+ * with `strict` the whole text must be a number. A sign after the number is
+ * only read with `signPosition: 'after'`, so an ordinal ('5-') is never negative.
  *
  * @param text - Text containing a number
+ * @param options - The custom separators and sign position used, and `strict`
  * @returns Parsed number or NaN if invalid
  *
  * @example
  * ```ts
  * parseNumber('٢٠٢٤') // 2024
  * parseNumber('2024') // 2024
+ * parseNumber('١٬٢٣٤٬٥٦٧٫٥') // 1234567.5
+ * parseNumber('12.5%') // 0.125
+ * parseNumber('1,234.50 يۈەن') // 1234.5
+ * parseNumber('5-', { signPosition: 'after' }) // -5
+ * parseNumber('5-ئاي') // 5
+ * parseNumber('12abc') // 12
+ * parseNumber('12abc', { strict: true }) // NaN
  * parseNumber('abc') // NaN
  * ```
  */
-export function parseNumber(text: string): number {
+export function parseNumber(text: string, options?: ParseNumberOptions): number {
   if (!text) return NaN;
 
-  const western = toWesternNumerals(text.trim());
-  return parseInt(western, 10);
+  let source = toWesternNumerals(text.trim());
+  for (const marker of CURRENCY_MARKERS) source = source.replace(marker, '');
+
+  const percent = /[%٪]/.test(source);
+  source = source.replace(/[%٪]/, '').trim();
+
+  // Custom separators replace the defaults, so a custom ',' decimal is not read as grouping
+  const groupSeparators = options?.groupSeparator ? [options.groupSeparator] : [',', '٬', ' ', '\u00a0', '\u202f'];
+  const decimalSeparators = options?.decimalSeparator ? [options.decimalSeparator] : ['.', '٫'];
+  const signAfter = options?.signPosition === 'after';
+
+  if (!options?.strict) {
+    const separators = [...groupSeparators, ...decimalSeparators]
+      .map((separator) => separator.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('|');
+    const sign = '\\s*[+\\-\\u2212]?\\s*';
+    const leading = new RegExp(`^${signAfter ? '' : sign}\\d(?:\\d|${separators})*${signAfter ? sign : ''}`, 'u');
+    source = leading.exec(source)?.[0].trim() ?? '';
+  }
+
+  const match = /^([+\-\u2212]?)\s*(.*?)\s*([+\-\u2212]?)$/su.exec(source);
+  if (!match || (signAfter ? match[1] : match[3])) return NaN;
+  const sign = match[1] || match[3];
+
+  let body = match[2];
+  for (const separator of groupSeparators) body = body.split(separator).join('');
+  for (const separator of decimalSeparators) body = body.split(separator).join('.');
+
+  if (!/^(\d+(\.\d*)?|\.\d+)$/.test(body)) return NaN;
+
+  const value = Number(body) * (sign === '-' || sign === '\u2212' ? -1 : 1);
+  return percent ? Number.parseFloat((value / 100).toPrecision(15)) : value;
+}
+
+/**
+ * Format an ordinal number
+ * The hyphen style is followed directly by the counted word: '5-ئاي' (the 5th month)
+ *
+ * @param n - A positive integer
+ * @param options - Ordinal options (`style`, `system`, `script`)
+ * @returns The ordinal
+ *
+ * @example
+ * ```ts
+ * toOrdinal(5) + 'ئاي' // '5-ئاي'
+ * toOrdinal(2024, { system: 'arabic-indic' }) // '٢٠٢٤-'
+ * toOrdinal(5, { style: 'word' }) // 'بەشىنچى'
+ * toOrdinal(6, { style: 'word', script: 'latin' }) // 'altinchi'
+ * ```
+ */
+export function toOrdinal(n: number, options?: OrdinalOptions): string {
+  if (!Number.isInteger(n)) {
+    throw new Error(`Ordinal form requires an integer: ${n}`);
+  }
+  if (n < 1) {
+    throw new Error(`Ordinal form requires a positive integer: ${n}`);
+  }
+
+  if (options?.style === 'word') {
+    return numberToWords(n, { ordinal: true, script: options.script });
+  }
+
+  return formatNumber(n, options?.system) + '-';
+}
+
+/**
+ * Attach a suffix to a number, choosing the variant that agrees with how the
+ * number is pronounced: 5 is 'بەش', so it takes 'كە'; 10 is 'ئون', so 'غا';
+ * 2 is 'ئىككى', so the possessive 'ى' becomes 'سى'
+ * Any variant of the suffix can be given, in Arabic script or ULY
+ *
+ * @param n - The number
+ * @param suffix - The suffix, e.g. 'غا', 'دا', 'دىن' or 'ge'
+ * @param options - Options (`system`, `separator`)
+ * @returns The formatted number with the suffix
+ *
+ * @example
+ * ```ts
+ * attachSuffixToNumber(5, 'غا') // '5 كە'
+ * attachSuffixToNumber(10, 'گە') // '10 غا'
+ * attachSuffixToNumber(1000, 'دا') // '1000 دا'
+ * attachSuffixToNumber(2, 'ى', { separator: '-' }) // '2-سى'
+ * attachSuffixToNumber(3, 'دىن', { system: 'arabic-indic', separator: '-' }) // '٣-تىن'
+ * ```
+ */
+export function attachSuffixToNumber(n: number, suffix: string, options?: NumberSuffixOptions): string {
+  const words = numberToWords(n).split(' ');
+  const variant = suffixVariant(words[words.length - 1], suffix);
+  return formatNumber(n, options?.system) + (options?.separator ?? ' ') + variant;
 }
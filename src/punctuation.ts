@@ -0,0 +1,59 @@
+/**
+ * Punctuation conversion utilities
+ * Convert between Arabic-script and Latin punctuation conventions
+ */
+
+import {
+  ARABIC_TO_LATIN_PUNCTUATION,
+  LATIN_TO_ARABIC_PUNCTUATION,
+} from './constants/alphabet';
+
+/**
+ * Convert a Latin punctuation mark to Arabic script, given its neighbours
+ */
+function toArabicPunctuation(char: string, prev: string | undefined, next: string | undefined): string {
+  // Straight double quotes open after whitespace or an opening bracket, close otherwise
+  if (char === '"') {
+    return prev === undefined || /[\s([{]/.test(prev) ? '«' : '»';
+  }
+
+  // Decimal and thousands separators inside a number
+  if ((char === '.' || char === ',') && prev !== undefined && next !== undefined) {
+    if (/[٠-٩]/.test(prev) && /[٠-٩]/.test(next)) {
+      return char === '.' ? '٫' : '٬';
+    }
+    if (/[0-9]/.test(prev) && /[0-9]/.test(next)) {
+      return char;
+    }
+  }
+
+  return LATIN_TO_ARABIC_PUNCTUATION[char] ?? char;
+}
+
+/**
+ * Convert punctuation between Arabic-script and Latin conventions
+ * Letters and other characters are left unchanged
+ *
+ * @param text - The text to convert
+ * @param target - Target convention ('arabic' or 'latin')
+ * @returns Text with converted punctuation
+ *
+ * @example
+ * ```ts
+ * convertPunctuation('سالام، دۇنيا؟', 'latin') // 'سالام, دۇنيا?'
+ * convertPunctuation('"salam", dunya?', 'arabic') // '«salam»، dunya؟'
+ * convertPunctuation('٣٫٥٪', 'latin') // '٣.٥%'
+ * convertPunctuation('٣.٥%', 'arabic') // '٣٫٥٪'
+ * ```
+ */
+export function convertPunctuation(text: string, target: 'arabic' | 'latin'): string {
+  if (!text) return '';
+
+  const chars = Array.from(text);
+
+  if (target === 'latin') {
+    return chars.map((char) => ARABIC_TO_LATIN_PUNCTUATION[char] ?? char).join('');
+  }
+
+  return chars.map((char, index) => toArabicPunctuation(char, chars[index - 1], chars[index + 1])).join('');
+}
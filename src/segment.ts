@@ -0,0 +1,405 @@
+/**
+ * Text segmentation utilities
+ * Split mixed-content text into typed spans so that only Uyghur text is processed
+ */
+
+/**
+ * Type of a text span
+ * - `arabic`: word in Arabic script (Uyghur)
+ * - `uly`: Latin word that looks like Uyghur (ULY)
+ * - `latin`: other Latin word (English, product names, acronyms, ...)
+ */
+export type SpanType =
+  | 'arabic'
+  | 'uly'
+  | 'latin'
+  | 'cyrillic'
+  | 'cjk'
+  | 'url'
+  | 'email'
+  | 'mention'
+  | 'code'
+  | 'number'
+  | 'whitespace'
+  | 'punctuation'
+  | 'other';
+
+/**
+ * A typed span of text with its offsets in the source string
+ */
+export interface TextSpan {
+  /** Span type */
+  type: SpanType;
+  /** Span text, exactly as in the source */
+  text: string;
+  /** Start offset in the source (inclusive) */
+  start: number;
+  /** End offset in the source (exclusive) */
+  end: number;
+}
+
+/**
+ * Options for text segmentation
+ */
+export interface SegmentOptions {
+  /** Latin words that should never be classified as ULY (case-insensitive) */
+  foreignWords?: string[];
+}
+
+/**
+ * A type of token
+ * - `word`: a word in one script, including apostrophes ("sa'et") and hyphens ('ئۆز-ئۆزىنى')
+ * - `number`: digits with decimals or grouping, and any hyphenated suffix ('5-ئاي')
+ */
+export type TokenType = 'word' | 'number' | 'punctuation' | 'symbol' | 'whitespace' | 'url' | 'email';
+
+/**
+ * A token with its offsets in the source string
+ */
+export interface Token {
+  /** Token type */
+  type: TokenType;
+  /** Token text, exactly as in the source */
+  text: string;
+  /** Start offset in the source (inclusive) */
+  start: number;
+  /** End offset in the source (exclusive) */
+  end: number;
+  /** Script of a word */
+  script?: 'arabic' | 'latin' | 'cyrillic' | 'other';
+}
+
+/**
+ * A sentence with its offsets in the source string
+ */
+export interface Sentence {
+  /** Sentence text, without surrounding whitespace */
+  text: string;
+  /** Start offset in the source (inclusive) */
+  start: number;
+  /** End offset in the source (exclusive) */
+  end: number;
+}
+
+/**
+ * Options for sentence splitting
+ */
+export interface SplitSentencesOptions {
+  /** More abbreviations that do not end a sentence, without the final period (case-insensitive) */
+  abbreviations?: string[];
+}
+
+/**
+ * URLs and e-mail addresses, shared by segmentation and tokenization
+ */
+const URL_PATTERN = '(?:https?:\\/\\/|www\\.)[^\\s<>"«»]*[^\\s<>"«».,!?;:)\\]،؛؟]';
+const EMAIL_PATTERN = '[\\p{L}\\p{N}._%+-]+@[\\p{L}\\p{N}-]+(?:\\.[\\p{L}\\p{N}-]+)+';
+
+/**
+ * Span patterns in priority order
+ */
+const SPAN_PATTERN = new RegExp(
+  [
+    '(?<code>`[^`\\n]*`)',
+    `(?<url>${URL_PATTERN})`,
+    `(?<email>${EMAIL_PATTERN})`,
+    '(?<mention>(?<![\\p{L}\\p{N}])[@#][\\p{L}\\p{N}_]+)',
+    '(?<number>[0-9٠-٩۰-۹]+(?:[.,٫٬][0-9٠-٩۰-۹]+)*)',
+    '(?<arabic>(?:(?=\\p{Script=Arabic})[\\p{L}\\p{M}])+)',
+    "(?<latin>[\\p{Script=Latin}\\p{M}]+(?:'[\\p{Script=Latin}\\p{M}]+)*)",
+    '(?<cyrillic>\\p{Script=Cyrillic}+)',
+    '(?<cjk>[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}]+)',
+    '(?<whitespace>\\s+)',
+    '(?<punctuation>\\p{P}+)',
+    '(?<other>[^])',
+  ].join('|'),
+  'gu'
+);
+
+/**
+ * Common foreign names that follow Uyghur spelling rules
+ */
+const FOREIGN_NAMES = new Set(['linux', 'ubuntu', 'amazon', 'samsung', 'huawei', 'intel', 'tesla', 'github']);
+
+/**
+ * Check if a Latin word is likely Uyghur written in ULY
+ *
+ * ULY-only letters (ö, ü, é) mark a word as Uyghur. Letters outside the ULY
+ * alphabet (c outside `ch`, v, other accented letters), acronyms, camelCase,
+ * consonant clusters Uyghur does not allow (two at the start of a word,
+ * three in a row), English spellings (`oo`, `ee`, `ou`, `ea`, a final `th`,
+ * `ws`, `ew` or consonant + `y`, a silent final `e` as in 'home') and a few
+ * common names ('Linux', 'Samsung') mark it as foreign.
+ *
+ * @param word - A single Latin word
+ * @returns true if the word is likely ULY
+ *
+ * @example
+ * ```ts
+ * isLikelyULY('kitab') // true
+ * isLikelyULY('söhbet') // true
+ * isLikelyULY('product') // false
+ * isLikelyULY('iPhone') // false
+ * isLikelyULY('Windows') // false
+ * ```
+ */
+export function isLikelyULY(word: string): boolean {
+  if (!word) return false;
+
+  const lower = word.toLowerCase();
+
+  if (/[öüé]/.test(lower)) return true;
+  if (/[^a-z']/.test(lower)) return false;
+  if (/c(?!h)|v/.test(lower)) return false;
+  if (word.length > 1 && word === word.toUpperCase()) return false;
+  if (/\p{Ll}\p{Lu}/u.test(word)) return false;
+
+  // Count each digraph as a single consonant
+  const letters = lower.replace(/ch|zh|sh|gh|ng/g, 'C');
+  if (/^[^aeiou']{2}/.test(letters)) return false;
+  if (/[^aeiou']{3}/.test(letters)) return false;
+
+  if (/oo|ee|ou|ea/.test(letters)) return false;
+  if (/(th|ws|ew|[^aeiou']y)$/.test(letters)) return false;
+  if (/[aou][^aeiou'y]e$/.test(letters)) return false;
+  if (FOREIGN_NAMES.has(lower)) return false;
+
+  return true;
+}
+
+/**
+ * Sentence boundaries for the context check in segmentText
+ */
+const SENTENCE_BREAK = /[.!?؟\n]/;
+
+/**
+ * Relabel ULY-looking words inside mostly foreign sentences
+ * Short words such as 'to' and 'Hello' look like ULY on their own; when the
+ * Latin words of a sentence are mostly foreign, only words with ULY-only
+ * letters (ö, ü, é) stay Uyghur
+ */
+function relabelForeignRuns(spans: TextSpan[]): void {
+  let run: TextSpan[] = [];
+
+  const flush = () => {
+    const uly = run.filter((span) => span.type === 'uly');
+    if (uly.length * 2 < run.length) {
+      for (const span of uly) {
+        if (!/[öüé]/i.test(span.text)) span.type = 'latin';
+      }
+    }
+    run = [];
+  };
+
+  for (const span of spans) {
+    if (span.type === 'uly' || span.type === 'latin') {
+      run.push(span);
+    } else if (
+      span.type === 'arabic' ||
+      span.type === 'cyrillic' ||
+      span.type === 'cjk' ||
+      (span.type === 'punctuation' && SENTENCE_BREAK.test(span.text)) ||
+      (span.type === 'whitespace' && span.text.includes('\n'))
+    ) {
+      flush();
+    }
+  }
+  flush();
+}
+
+/**
+ * Split text into typed spans
+ * Concatenating the span texts always reproduces the input exactly
+ * Within a sentence whose Latin words are mostly foreign, words are only
+ * labelled `uly` when they contain ö, ü or é
+ *
+ * @param text - The text to segment
+ * @param options - Segmentation options
+ * @returns Spans in source order
+ *
+ * @example
+ * ```ts
+ * segmentText('سالام https://example.com')
+ * // [
+ * //   { type: 'arabic', text: 'سالام', start: 0, end: 5 },
+ * //   { type: 'whitespace', text: ' ', start: 5, end: 6 },
+ * //   { type: 'url', text: 'https://example.com', start: 6, end: 25 },
+ * // ]
+ * ```
+ */
+export function segmentText(text: string, options?: SegmentOptions): TextSpan[] {
+  if (!text) return [];
+
+  const foreignWords = new Set((options?.foreignWords ?? []).map((word) => word.toLowerCase()));
+  const spans: TextSpan[] = [];
+
+  for (const match of text.matchAll(SPAN_PATTERN)) {
+    const groups = match.groups ?? {};
+    let type = Object.keys(groups).find((name) => groups[name] !== undefined) as SpanType;
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+
+    if (type === 'latin' && !foreignWords.has(match[0].toLowerCase()) && isLikelyULY(match[0])) {
+      type = 'uly';
+    }
+
+    // Merge runs of single-character 'other' spans (emoji, symbols)
+    const last = spans[spans.length - 1];
+    if (type === 'other' && last?.type === 'other' && last.end === start) {
+      last.text += match[0];
+      last.end = end;
+      continue;
+    }
+
+    spans.push({ type, text: match[0], start, end });
+  }
+
+  relabelForeignRuns(spans);
+
+  return spans;
+}
+
+/**
+ * Words of one script; Latin words may contain apostrophes ("sa'et", "n'gal")
+ */
+const ARABIC_WORD = '(?:(?=\\p{Script=Arabic})\\p{L})(?:(?=\\p{Script=Arabic})\\p{L}|\\p{M})*';
+const LATIN_WORD = "\\p{Script=Latin}[\\p{Script=Latin}\\p{M}]*(?:['’]\\p{Script=Latin}[\\p{Script=Latin}\\p{M}]*)*";
+const CYRILLIC_WORD = '\\p{Script=Cyrillic}[\\p{Script=Cyrillic}\\p{M}]*';
+const DIGITS = '[0-9٠-٩۰-۹]+';
+
+/**
+ * Token patterns in priority order
+ * Hyphens join words of the same script ('ئۆز-ئۆزىنى') and attach suffixes to numbers ('5-ئاي')
+ */
+const TOKEN_PATTERN = new RegExp(
+  [
+    `(?<url>${URL_PATTERN})`,
+    `(?<email>${EMAIL_PATTERN})`,
+    `(?<number>${DIGITS}(?:[.,٫٬]${DIGITS})*(?:-(?:${ARABIC_WORD}|${LATIN_WORD}|${CYRILLIC_WORD}))?)`,
+    `(?<arabic>${ARABIC_WORD}(?:-${ARABIC_WORD})*)`,
+    `(?<latin>${LATIN_WORD}(?:-${LATIN_WORD})*)`,
+    `(?<cyrillic>${CYRILLIC_WORD}(?:-${CYRILLIC_WORD})*)`,
+    '(?<other>(?:(?![\\p{Script=Arabic}\\p{Script=Latin}\\p{Script=Cyrillic}])[\\p{L}\\p{M}])+)',
+    '(?<whitespace>\\s+)',
+    '(?<punctuation>\\.{2,}|[!?؟]+|\\p{P})',
+    '(?<symbol>[\\p{S}\\u200d\\ufe0f]+|[^])',
+  ].join('|'),
+  'gu'
+);
+
+/**
+ * Split text into typed tokens
+ * Unlike whitespace splitting, punctuation such as '،' and '؟' becomes its own
+ * token, numbers keep their suffixes ('5-ئاي'), ULY apostrophes stay inside
+ * words, and words in different scripts are separated ('iPhoneنى')
+ * Concatenating the token texts always reproduces the input exactly
+ *
+ * @param text - The text to tokenize
+ * @returns Tokens in source order
+ *
+ * @example
+ * ```ts
+ * tokenize('5-ئاي، سالام!')
+ * // [
+ * //   { type: 'number', text: '5-ئاي', start: 0, end: 5 },
+ * //   { type: 'punctuation', text: '،', start: 5, end: 6 },
+ * //   { type: 'whitespace', text: ' ', start: 6, end: 7 },
+ * //   { type: 'word', text: 'سالام', start: 7, end: 12, script: 'arabic' },
+ * //   { type: 'punctuation', text: '!', start: 12, end: 13 },
+ * // ]
+ * ```
+ */
+export function tokenize(text: string): Token[] {
+  if (!text) return [];
+
+  const tokens: Token[] = [];
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const groups = match.groups ?? {};
+    const name = Object.keys(groups).find((key) => groups[key] !== undefined)!;
+    const start = match.index ?? 0;
+    const token: Token = { type: name as TokenType, text: match[0], start, end: start + match[0].length };
+
+    if (name === 'arabic' || name === 'latin' || name === 'cyrillic' || name === 'other') {
+      token.type = 'word';
+      token.script = name;
+    }
+
+    tokens.push(token);
+  }
+
+  return tokens;
+}
+
+/**
+ * Abbreviations that do not end a sentence, without the final period
+ * Single letters ('A.', 'م.') and chains of them ('U.S.') are always abbreviations
+ */
+const ABBREVIATIONS = ['dr', 'mr', 'mrs', 'ms', 'prof', 'st', 'no', 'vs', 'etc', 'e.g', 'i.e', 'jr', 'sr', 'inc', 'ltd'];
+
+/**
+ * Sentence terminators (Latin and Arabic) and the closing quotes or brackets after them
+ */
+const TERMINATOR_PATTERN = /[.!?؟۔…]+["'»”’)\]]*(?=\s|$)/gu;
+
+/**
+ * Check if a period ends an abbreviation rather than a sentence
+ */
+function isAbbreviation(text: string, index: number, abbreviations: Set<string>): boolean {
+  const word = /[\p{L}\p{M}.]+$/u.exec(text.slice(0, index))?.[0].toLowerCase();
+  if (!word) return false;
+  return abbreviations.has(word) || word.split('.').every((part) => /^\p{L}\p{M}*$/u.test(part));
+}
+
+/**
+ * Split text into sentences
+ * Sentences end at Latin and Arabic terminators ('.', '!', '?', '؟', '۔', '…')
+ * followed by whitespace, and at blank lines. A period after an abbreviation
+ * or initial ('Dr.', 'م.'), or before a lowercase Latin word, does not end one.
+ *
+ * @param text - The text to split
+ * @param options - Splitting options (`abbreviations`)
+ * @returns Sentences in source order, without surrounding whitespace
+ *
+ * @example
+ * ```ts
+ * splitSentences('سالام! قانداق ئەھۋالىڭىز؟ Dr. Smith keldi.').map((s) => s.text)
+ * // ['سالام!', 'قانداق ئەھۋالىڭىز؟', 'Dr. Smith keldi.']
+ * ```
+ */
+export function splitSentences(text: string, options?: SplitSentencesOptions): Sentence[] {
+  if (!text) return [];
+
+  const abbreviations = new Set([...ABBREVIATIONS, ...(options?.abbreviations ?? []).map((a) => a.toLowerCase())]);
+  const boundaries = new Set<number>([text.length]);
+
+  for (const match of text.matchAll(TERMINATOR_PATTERN)) {
+    const index = match.index ?? 0;
+    const end = index + match[0].length;
+
+    if (/^[.…]/.test(match[0]) && !/[!?؟]/.test(match[0])) {
+      if (/^\.[^.]*$/.test(match[0]) && isAbbreviation(text, index, abbreviations)) continue;
+      if (/^\s*\p{Ll}/u.test(text.slice(end))) continue;
+    }
+
+    boundaries.add(end);
+  }
+
+  for (const match of text.matchAll(/\n[^\S\n]*\n/g)) boundaries.add(match.index ?? 0);
+
+  const sentences: Sentence[] = [];
+  let start = 0;
+
+  for (const boundary of [...boundaries].sort((a, b) => a - b)) {
+    const piece = text.slice(start, boundary);
+    const leading = piece.length - piece.trimStart().length;
+    const sentence = piece.trim();
+
+    if (sentence) {
+      sentences.push({ text: sentence, start: start + leading, end: start + leading + sentence.length });
+    }
+    start = boundary;
+  }
+
+  return sentences;
+}
@@ -0,0 +1,254 @@
+/**
+ * Contextual shaping utilities
+ * Convert Uyghur text to presentation forms for renderers that cannot shape Arabic script
+ */
+
+/**
+ * Options for contextual shaping
+ */
+export interface ShapeOptions {
+  /**
+   * Also reorder each line into visual (left-to-right display) order (default: false)
+   * For renderers that neither shape nor apply the bidirectional algorithm
+   */
+  visualOrder?: boolean;
+}
+
+/**
+ * Presentation forms of a letter: isolated, final, initial, medial
+ * Right-joining letters (ا, د, ر, و, ۇ, ە, ...) have no initial or medial form
+ */
+type LetterForms = [isolated: string, final: string, initial?: string, medial?: string];
+
+/**
+ * Presentation forms of Uyghur letters and common Arabic-borrowed letters
+ * ە has no presentation forms of its own and uses the heh glyphs, matching
+ * how `foldPresentationForms` reads them
+ */
+const LETTER_FORMS: Record<string, LetterForms> = {
+  // Uyghur alphabet
+  'ا': ['ﺍ', 'ﺎ'],
+  'ە': ['ﻩ', 'ﻪ'],
+  'ب': ['ﺏ', 'ﺐ', 'ﺑ', 'ﺒ'],
+  'پ': ['ﭖ', 'ﭗ', 'ﭘ', 'ﭙ'],
+  'ت': ['ﺕ', 'ﺖ', 'ﺗ', 'ﺘ'],
+  'ج': ['ﺝ', 'ﺞ', 'ﺟ', 'ﺠ'],
+  'چ': ['ﭺ', 'ﭻ', 'ﭼ', 'ﭽ'],
+  'خ': ['ﺥ', 'ﺦ', 'ﺧ', 'ﺨ'],
+  'د': ['ﺩ', 'ﺪ'],
+  'ر': ['ﺭ', 'ﺮ'],
+  'ز': ['ﺯ', 'ﺰ'],
+  'ژ': ['ﮊ', 'ﮋ'],
+  'س': ['ﺱ', 'ﺲ', 'ﺳ', 'ﺴ'],
+  'ش': ['ﺵ', 'ﺶ', 'ﺷ', 'ﺸ'],
+  'غ': ['ﻍ', 'ﻎ', 'ﻏ', 'ﻐ'],
+  'ف': ['ﻑ', 'ﻒ', 'ﻓ', 'ﻔ'],
+  'ق': ['ﻕ', 'ﻖ', 'ﻗ', 'ﻘ'],
+  'ك': ['ﻙ', 'ﻚ', 'ﻛ', 'ﻜ'],
+  'گ': ['ﮒ', 'ﮓ', 'ﮔ', 'ﮕ'],
+  'ڭ': ['ﯓ', 'ﯔ', 'ﯕ', 'ﯖ'],
+  'ل': ['ﻝ', 'ﻞ', 'ﻟ', 'ﻠ'],
+  'م': ['ﻡ', 'ﻢ', 'ﻣ', 'ﻤ'],
+  'ن': ['ﻥ', 'ﻦ', 'ﻧ', 'ﻨ'],
+  'ھ': ['ﮪ', 'ﮫ', 'ﮬ', 'ﮭ'],
+  'و': ['ﻭ', 'ﻮ'],
+  'ۇ': ['ﯗ', 'ﯘ'],
+  'ۆ': ['ﯙ', 'ﯚ'],
+  'ۈ': ['ﯛ', 'ﯜ'],
+  'ۋ': ['ﯞ', 'ﯟ'],
+  'ې': ['ﯤ', 'ﯥ', 'ﯦ', 'ﯧ'],
+  'ى': ['ﻯ', 'ﻰ', 'ﯨ', 'ﯩ'],
+  'ي': ['ﻱ', 'ﻲ', 'ﻳ', 'ﻴ'],
+  'ئ': ['ﺉ', 'ﺊ', 'ﺋ', 'ﺌ'],
+  'ء': ['ﺀ', 'ﺀ'],
+
+  // Arabic-borrowed letters
+  'أ': ['ﺃ', 'ﺄ'],
+  'إ': ['ﺇ', 'ﺈ'],
+  'آ': ['ﺁ', 'ﺂ'],
+  'ؤ': ['ﺅ', 'ﺆ'],
+  'ث': ['ﺙ', 'ﺚ', 'ﺛ', 'ﺜ'],
+  'ح': ['ﺡ', 'ﺢ', 'ﺣ', 'ﺤ'],
+  'ذ': ['ﺫ', 'ﺬ'],
+  'ص': ['ﺹ', 'ﺺ', 'ﺻ', 'ﺼ'],
+  'ض': ['ﺽ', 'ﺾ', 'ﺿ', 'ﻀ'],
+  'ط': ['ﻁ', 'ﻂ', 'ﻃ', 'ﻄ'],
+  'ظ': ['ﻅ', 'ﻆ', 'ﻇ', 'ﻈ'],
+  'ع': ['ﻉ', 'ﻊ', 'ﻋ', 'ﻌ'],
+};
+
+/**
+ * Lam-alef ligatures (isolated, final) by the alef that follows lam
+ */
+const LAM_ALEF_FORMS: Record<string, [isolated: string, final: string]> = {
+  'ا': ['ﻻ', 'ﻼ'],
+  'أ': ['ﻷ', 'ﻸ'],
+  'إ': ['ﻹ', 'ﻺ'],
+  'آ': ['ﻵ', 'ﻶ'],
+};
+
+/**
+ * Characters that join on both sides without changing shape: tatweel and ZWJ
+ */
+const JOIN_CAUSING = new Set(['ـ', '‍']);
+
+/**
+ * Brackets swapped when a right-to-left run is reversed
+ */
+const MIRRORED_BRACKETS: Record<string, string> = {
+  '(': ')',
+  ')': '(',
+  '[': ']',
+  ']': '[',
+  '{': '}',
+  '}': '{',
+  '<': '>',
+  '>': '<',
+  '«': '»',
+  '»': '«',
+};
+
+/**
+ * Check if a character does not affect joining (combining marks such as harakat)
+ */
+function isTransparent(char: string): boolean {
+  return /\p{Mn}/u.test(char);
+}
+
+/**
+ * Check if a character connects to the letter before it
+ */
+function joinsBefore(char: string | undefined): boolean {
+  if (char === undefined) return false;
+  return JOIN_CAUSING.has(char) || (char in LETTER_FORMS && char !== 'ء');
+}
+
+/**
+ * Check if a character connects to the letter after it
+ */
+function joinsAfter(char: string | undefined): boolean {
+  if (char === undefined) return false;
+  return JOIN_CAUSING.has(char) || LETTER_FORMS[char]?.[2] !== undefined;
+}
+
+/**
+ * Replace base letters with their contextual presentation forms (logical order)
+ */
+function shapeLetters(text: string): string {
+  const chars = Array.from(text);
+  let result = '';
+
+  // Nearest non-transparent character in each direction
+  const neighbor = (index: number, step: 1 | -1): string | undefined => {
+    for (let i = index + step; i >= 0 && i < chars.length; i += step) {
+      if (!isTransparent(chars[i])) return chars[i];
+    }
+    return undefined;
+  };
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const forms = LETTER_FORMS[char];
+    if (!forms) {
+      result += char;
+      continue;
+    }
+
+    const joinedBefore = joinsAfter(neighbor(i, -1)) && joinsBefore(char);
+
+    // Lam followed by alef becomes a single ligature
+    const next = chars[i + 1];
+    if (char === 'ل' && next in LAM_ALEF_FORMS) {
+      result += LAM_ALEF_FORMS[next][joinedBefore ? 1 : 0];
+      i++;
+      continue;
+    }
+
+    const joinedAfter = joinsAfter(char) && joinsBefore(neighbor(i, 1));
+    const [isolated, final, initial, medial] = forms;
+
+    if (joinedBefore && joinedAfter) result += medial ?? final;
+    else if (joinedBefore) result += final;
+    else if (joinedAfter) result += initial ?? isolated;
+    else result += isolated;
+  }
+
+  return result;
+}
+
+/**
+ * Bidirectional class of a character cluster, simplified to strong right-to-left,
+ * strong left-to-right (letters of other scripts and all digits) and neutral
+ */
+function bidiClass(cluster: string): 'R' | 'L' | 'N' {
+  const base = cluster[0];
+  if (/\p{N}/u.test(base)) return 'L';
+  if (/\p{L}/u.test(base)) return /\p{Script=Arabic}/u.test(base) ? 'R' : 'L';
+  return 'N';
+}
+
+/**
+ * Reverse a right-to-left run, mirroring brackets
+ */
+function reverseRun(clusters: string[]): string[] {
+  return clusters.reverse().map((cluster) => MIRRORED_BRACKETS[cluster] ?? cluster);
+}
+
+/**
+ * Reorder a single line between logical and visual order
+ * Uses a simplified bidirectional algorithm: the paragraph direction comes from
+ * the first strong character unless given, neutrals between runs of the same
+ * direction take that direction and other neutrals take the paragraph direction.
+ * With a right-to-left paragraph the reordering is its own inverse.
+ * A line can be given as clusters to keep multi-character units (ligatures) together.
+ */
+export function reorderLine(line: string | string[], direction?: 'R' | 'L'): string {
+  // Keep combining marks with their base character, unless clusters are given
+  const clusters = typeof line === 'string' ? (line.match(/\P{M}\p{M}*|\p{M}+/gu) ?? []) : [...line];
+  const classes = clusters.map(bidiClass);
+  const base = direction ?? classes.find((type) => type !== 'N') ?? 'L';
+
+  const resolved = classes.map((type, index) => {
+    if (type !== 'N') return type;
+    const before = classes.slice(0, index).reverse().find((t) => t !== 'N') ?? base;
+    const after = classes.slice(index + 1).find((t) => t !== 'N') ?? base;
+    return before === after ? before : base;
+  });
+
+  // Group consecutive clusters of the same resolved direction
+  const runs: Array<{ type: 'R' | 'L'; clusters: string[] }> = [];
+  clusters.forEach((cluster, index) => {
+    const last = runs[runs.length - 1];
+    if (last?.type === resolved[index]) last.clusters.push(cluster);
+    else runs.push({ type: resolved[index], clusters: [cluster] });
+  });
+
+  const ordered = base === 'R' ? runs.reverse() : runs;
+  return ordered.map((run) => (run.type === 'R' ? reverseRun(run.clusters) : run.clusters).join('')).join('');
+}
+
+/**
+ * Shape Uyghur text into contextual presentation forms
+ * Converts base letters into their isolated, initial, medial and final forms
+ * (and lam-alef ligatures), so that text renders connected in tools without
+ * Arabic shaping support. This is the inverse of `foldPresentationForms`.
+ *
+ * @param text - The Uyghur text in Arabic script
+ * @param options - Shaping options (`visualOrder`)
+ * @returns The shaped text
+ *
+ * @example
+ * ```ts
+ * shapeUyghur('سالام') // 'ﺳﺎﻻﻡ'
+ * foldPresentationForms(shapeUyghur('ئۇيغۇرچە')) // 'ئۇيغۇرچە'
+ * shapeUyghur('سالام 2024', { visualOrder: true }) // '2024 ﻡﻻﺎﺳ'
+ * ```
+ */
+export function shapeUyghur(text: string, options?: ShapeOptions): string {
+  if (!text) return '';
+
+  const shaped = shapeLetters(text.normalize('NFC'));
+  if (!options?.visualOrder) return shaped;
+
+  return shaped.split(/(\r?\n)/).map((line, index) => (index % 2 === 1 ? line : reorderLine(line))).join('');
+}
@@ -0,0 +1,300 @@
+/**
+ * Number spelling utilities
+ * Spell out numbers as Uyghur words
+ */
+
+import { ARABIC_INDIC_NUMERALS, EXTENDED_ARABIC_INDIC_NUMERALS } from './constants';
+import { harmonizeSuffix, ordinalWord } from './suffix';
+import { fromCyrillic, toArabic, toCyrillic, toULY } from './transliterate';
+
+/**
+ * Options for spelling out numbers
+ */
+export interface NumberToWordsOptions {
+  /** Output script (default: 'arabic') */
+  script?: 'arabic' | 'latin' | 'cyrillic';
+  /** Spell the ordinal form, e.g. 'ئىككىنچى' (second) (default: false) */
+  ordinal?: boolean;
+}
+
+/**
+ * Words for 0–9
+ */
+const ONES = ['نۆل', 'بىر', 'ئىككى', 'ئۈچ', 'تۆت', 'بەش', 'ئالتە', 'يەتتە', 'سەككىز', 'توققۇز'];
+
+/**
+ * Words for 10, 20, ..., 90
+ */
+const TENS = ['', 'ئون', 'يىگىرمە', 'ئوتتۇز', 'قىرىق', 'ئەللىك', 'ئاتمىش', 'يەتمىش', 'سەكسەن', 'توقسان'];
+
+const HUNDRED = 'يۈز';
+
+/**
+ * Words for powers of 1000
+ */
+const SCALES = ['', 'مىڭ', 'مىليون', 'مىليارد', 'تىرىليون', 'كۋادرىليون', 'كۋىنتىليون'];
+
+const MINUS = 'مىنۇس';
+
+/**
+ * Half, as in 'بىر يېرىم' (one and a half)
+ */
+const HALF = 'يېرىم';
+
+/**
+ * Separates the whole and fractional parts of a decimal: 'ئۈچ پۈتۈن ئوندىن بەش' (3.5)
+ */
+const WHOLE = 'پۈتۈن';
+
+/**
+ * Spell a non-negative integer given as a string of digits
+ */
+function spellInteger(digits: string): string[] {
+  const trimmed = digits.replace(/^0+(?=\d)/, '');
+  if (/^0+$/.test(trimmed)) return [ONES[0]];
+
+  const groupCount = Math.ceil(trimmed.length / 3);
+  if (groupCount > SCALES.length) {
+    throw new Error(`Number is too large to spell out: ${digits}`);
+  }
+
+  const padded = trimmed.padStart(groupCount * 3, '0');
+  const words: string[] = [];
+
+  for (let group = 0; group < groupCount; group++) {
+    const [hundreds, tens, ones] = Array.from(padded.slice(group * 3, group * 3 + 3), Number);
+    const scale = groupCount - group - 1;
+    if (hundreds + tens + ones === 0) continue;
+
+    // 'يۈز' and 'مىڭ' are said without 'بىر' (one)
+    const onlyOne = hundreds === 0 && tens === 0 && ones === 1;
+    if (onlyOne && scale === 1) {
+      words.push(SCALES[1]);
+      continue;
+    }
+
+    if (hundreds > 0) {
+      if (hundreds > 1) words.push(ONES[hundreds]);
+      words.push(HUNDRED);
+    }
+    if (tens > 0) words.push(TENS[tens]);
+    if (ones > 0) words.push(ONES[ones]);
+    if (scale > 0) words.push(SCALES[scale]);
+  }
+
+  return words;
+}
+
+/**
+ * Attach the ablative suffix (-دىن/-تىن, "out of") to the last word
+ */
+function ablative(words: string[]): string[] {
+  const last = words[words.length - 1];
+  return [...words.slice(0, -1), last + harmonizeSuffix(last, 'دىن')];
+}
+
+/**
+ * Split a number into sign, integer digits and fraction (decimal digits or a denominator)
+ */
+function parseValue(value: number | bigint | string): {
+  negative: boolean;
+  integer: string;
+  decimals?: string;
+  denominator?: string;
+} {
+  let text: string;
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw new Error(`Invalid number: ${value}`);
+    text = value.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 });
+  } else {
+    text = String(value)
+      .trim()
+      .replace(/[٠-٩۰-۹]/g, (digit) => ARABIC_INDIC_NUMERALS[digit] ?? EXTENDED_ARABIC_INDIC_NUMERALS[digit])
+      .replace(/[٫]/g, '.');
+  }
+
+  const match = /^([+-]?)(\d+)(?:\.(\d+)|\/(\d+))?$/.exec(text);
+  if (!match) throw new Error(`Invalid number: ${value}`);
+
+  const [, sign, integer, decimals, denominator] = match;
+  if (denominator !== undefined && /^0+$/.test(denominator)) {
+    throw new Error(`Invalid number: ${value}`);
+  }
+
+  return { negative: sign === '-' && /[1-9]/.test(integer + (decimals ?? '')), integer, decimals, denominator };
+}
+
+/**
+ * Spell out a number as Uyghur words
+ * Handles integers up to the quintillions (pass a bigint or string beyond
+ * `Number.MAX_SAFE_INTEGER`), negatives, decimals and fractions ('3/4')
+ *
+ * @param value - The number, a bigint, or a string such as '12.50', '٣/٤' or '-7'
+ * @param options - Spelling options (`script`, `ordinal`)
+ * @returns The number in words
+ *
+ * @example
+ * ```ts
+ * numberToWords(2024) // 'ئىككى مىڭ يىگىرمە تۆت'
+ * numberToWords(2024, { script: 'latin' }) // 'ikki ming yigirme töt'
+ * numberToWords(-3.5) // 'مىنۇس ئۈچ پۈتۈن ئوندىن بەش'
+ * numberToWords('3/4') // 'تۆتتىن ئۈچ'
+ * numberToWords(2, { ordinal: true }) // 'ئىككىنچى'
+ * ```
+ */
+export function numberToWords(value: number | bigint | string, options?: NumberToWordsOptions): string {
+  const { negative, integer, decimals, denominator } = parseValue(value);
+  let words: string[];
+
+  if (denominator !== undefined) {
+    // Fractions are read denominator first: 'تۆتتىن ئۈچ' (three out of four)
+    words = [...ablative(spellInteger(denominator)), ...spellInteger(integer)];
+  } else {
+    words = spellInteger(integer);
+
+    if (decimals !== undefined) {
+      const scale = spellInteger('1' + '0'.repeat(decimals.length));
+      words.push(WHOLE, ...ablative(scale), ...spellInteger(decimals));
+    }
+  }
+
+  if (options?.ordinal) {
+    if (decimals !== undefined || denominator !== undefined) {
+      throw new Error(`Ordinal form requires an integer: ${value}`);
+    }
+    words[words.length - 1] = ordinalWord(words[words.length - 1]);
+  }
+
+  if (negative) words.unshift(MINUS);
+
+  const result = words.join(' ');
+  if (options?.script === 'latin') return toULY(result);
+  if (options?.script === 'cyrillic') return toCyrillic(result);
+  return result;
+}
+
+/**
+ * Values of number words
+ */
+const CARDINAL_VALUES = new Map<string, number>([
+  ...ONES.map((word, value): [string, number] => [word, value]),
+  ...TENS.slice(1).map((word, index): [string, number] => [word, (index + 1) * 10]),
+  [HUNDRED, 100],
+  ...SCALES.slice(1).map((word, index): [string, number] => [word, 1000 ** (index + 1)]),
+]);
+
+/**
+ * Values of ordinal number words ('ئىككىنچى')
+ */
+const ORDINAL_VALUES = new Map([...CARDINAL_VALUES].map(([word, value]) => [ordinalWord(word), value]));
+
+/**
+ * Values of number words in the ablative, the denominators of fractions ('تۆتتىن')
+ */
+const ABLATIVE_VALUES = new Map([...CARDINAL_VALUES].map(([word, value]) => [ablative([word])[0], value]));
+
+/**
+ * Convert a word to Arabic script for lookup
+ */
+function toArabicWord(word: string): string {
+  if (/\p{Script=Cyrillic}/u.test(word)) return fromCyrillic(word);
+  if (/\p{Script=Latin}/u.test(word)) return toArabic(word);
+  return word;
+}
+
+/**
+ * Check if a word is a Uyghur number word (in any script)
+ */
+export function isNumberWord(word: string): boolean {
+  const arabic = toArabicWord(word);
+  return (
+    CARDINAL_VALUES.has(arabic) ||
+    ORDINAL_VALUES.has(arabic) ||
+    ABLATIVE_VALUES.has(arabic) ||
+    [MINUS, WHOLE, HALF].includes(arabic)
+  );
+}
+
+/**
+ * Add up the values of an integer in words, or return NaN if they do not form one
+ * The last word may also be looked up in another table (ordinal or ablative forms)
+ */
+function sumWords(words: string[], lastValues?: Map<string, number>): number {
+  if (words.length === 0) return NaN;
+
+  let total = 0;
+  let group = 0;
+  let lastScale = Infinity;
+
+  for (const [index, word] of words.entries()) {
+    const isLast = index === words.length - 1;
+    const value = CARDINAL_VALUES.get(word) ?? (isLast ? lastValues?.get(word) : undefined);
+    if (value === undefined) return NaN;
+
+    if (value >= 1000) {
+      // Scales decrease: 'ئىككى مىڭ' but not 'مىڭ مىليون'
+      if (value >= lastScale) return NaN;
+      total += (group || 1) * value;
+      group = 0;
+      lastScale = value;
+    } else if (value === 100) {
+      if (group >= 10) return NaN;
+      group = (group || 1) * 100;
+    } else if (value >= 10) {
+      if (group % 100 !== 0) return NaN;
+      group += value;
+    } else {
+      if (group % 10 !== 0 || (value === 0 && words.length > 1)) return NaN;
+      group += value;
+    }
+  }
+
+  return total + group;
+}
+
+/**
+ * Parse Uyghur number words into a number
+ * Accepts Arabic script, ULY and Cyrillic, negatives ('مىنۇس'), decimals
+ * ('ئۈچ پۈتۈن ئوندىن بەش'), fractions ('تۆتتىن ئۈچ'), halves ('بىر يېرىم')
+ * and ordinals ('ئىككىنچى')
+ *
+ * @param text - The number in words
+ * @returns The number, or NaN if the text is not a number
+ *
+ * @example
+ * ```ts
+ * wordsToNumber('ئۈچ يۈز ئەللىك بەش') // 355
+ * wordsToNumber('ikki ming') // 2000
+ * wordsToNumber('مىنۇس ئۈچ پۈتۈن ئوندىن بەش') // -3.5
+ * wordsToNumber('تۆتتىن ئۈچ') // 0.75
+ * wordsToNumber('salam') // NaN
+ * ```
+ */
+export function wordsToNumber(text: string): number {
+  if (!text || !text.trim()) return NaN;
+
+  const words = text.trim().split(/\s+/).map(toArabicWord);
+  const sign = words[0] === MINUS ? -1 : 1;
+  if (sign < 0) words.shift();
+
+  if (words[words.length - 1] === HALF) {
+    const integer = words.length > 1 ? sumWords(words.slice(0, -1)) : 0;
+    return sign * (integer + 0.5);
+  }
+
+  const whole = words.indexOf(WHOLE);
+  const denominatorEnd = words.findIndex((word) => ABLATIVE_VALUES.has(word));
+
+  if (denominatorEnd < 0) {
+    return whole < 0 ? sign * sumWords(words, ORDINAL_VALUES) : NaN;
+  }
+
+  // '[integer پۈتۈن] denominator-دىن numerator'
+  if (denominatorEnd < whole) return NaN;
+  const integer = whole >= 0 ? sumWords(words.slice(0, whole)) : 0;
+  const denominator = sumWords(words.slice(whole + 1, denominatorEnd + 1), ABLATIVE_VALUES);
+  const numerator = sumWords(words.slice(denominatorEnd + 1));
+
+  return sign * (integer + numerator / denominator);
+}
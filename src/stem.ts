@@ -0,0 +1,264 @@
+/**
+ * Stemming utilities
+ * Strip inflectional suffixes from Uyghur words for search indexing
+ */
+
+import { UYGHUR_VOICELESS_CONSONANTS_ARABIC, UYGHUR_VOWELS_ARABIC } from './constants';
+import { fromCyrillic, toArabic, toCyrillic, toULY } from './transliterate';
+
+const VOWELS = new Set<string>(UYGHUR_VOWELS_ARABIC);
+const VOICELESS_CONSONANTS = new Set<string>(UYGHUR_VOICELESS_CONSONANTS_ARABIC);
+
+/**
+ * Case suffixes and particles, which come last
+ */
+const CASE_SUFFIXES = [
+  'نىڭكى',
+  'دىكى',
+  'تىكى',
+  'غىچە',
+  'قىچە',
+  'گىچە',
+  'كىچە',
+  'دىن',
+  'تىن',
+  'نىڭ',
+  'دەك',
+  'تەك',
+  'دا',
+  'دە',
+  'تا',
+  'تە',
+  'غا',
+  'گە',
+  'قا',
+  'كە',
+  'نى',
+  'مۇ',
+];
+
+/**
+ * Possessive suffixes, which come between the plural and the case
+ */
+const POSSESSIVE_SUFFIXES = [
+  'ىڭلار',
+  'ىڭلەر',
+  'ڭلار',
+  'ڭلەر',
+  'ىمىز',
+  'ىڭىز',
+  'مىز',
+  'ڭىز',
+  'سى',
+  'ىم',
+  'ۇم',
+  'ۈم',
+  'ىڭ',
+  'ۇڭ',
+  'ۈڭ',
+  'ى',
+];
+
+/**
+ * First- and second-person possessives that also end many stems ('مۇئەللىم',
+ * 'ئالىم'), so they are only stripped after a plural ('كىتابلىرىم')
+ */
+const AMBIGUOUS_POSSESSIVE_SUFFIXES = ['ىم', 'ۇم', 'ۈم', 'ىڭ', 'ۇڭ', 'ۈڭ'];
+
+/**
+ * Plural suffixes, including the weakened form before a possessive ('كىتابلىرى')
+ */
+const PLURAL_SUFFIXES = ['لار', 'لەر', 'لىر'];
+
+/**
+ * Common verb suffixes: tense and person endings, participles and the infinitive
+ */
+const VERB_SUFFIXES = [
+  'ىۋاتىدۇ',
+  'ۋاتىدۇ',
+  'ىۋاتقان',
+  'ۋاتقان',
+  'ىدىغان',
+  'يدىغان',
+  'دىڭلار',
+  'تىڭلار',
+  'مايدۇ',
+  'مەيدۇ',
+  'دىڭىز',
+  'تىڭىز',
+  'ماقچى',
+  'مەكچى',
+  'ىمەن',
+  'يمەن',
+  'ىسەن',
+  'يسەن',
+  'ىسىز',
+  'يسىز',
+  'ىپتۇ',
+  'پتۇ',
+  'مىدى',
+  'ىدۇ',
+  'يدۇ',
+  'دىم',
+  'تىم',
+  'دۇم',
+  'تۇم',
+  'دۈم',
+  'تۈم',
+  'دىڭ',
+  'تىڭ',
+  'دۇق',
+  'تۇق',
+  'دۈق',
+  'تۈق',
+  'غان',
+  'قان',
+  'گەن',
+  'كەن',
+  'ماق',
+  'مەك',
+  'دى',
+  'تى',
+];
+
+/**
+ * Common nouns that end like a verb suffix ('تاماق', 'ئەتىگەن'), so
+ * suffixes are never stripped from inside them
+ */
+const NOUNS = ['تاماق', 'چاقماق', 'ئايماق', 'ئەتىگەن', 'ئەپەندى', 'ئورۇندۇق', 'ساندۇق', 'دېھقان', 'چاشقان', 'دوست'];
+
+/**
+ * Count the vowels of a word (Arabic script)
+ */
+function countVowels(word: string): number {
+  return Array.from(word).filter((char) => VOWELS.has(char)).length;
+}
+
+/**
+ * Check if a suffix can follow a stem
+ * - voicing: '-تا', '-قا', '-كە' only after voiceless consonants and ب, which is
+ *   devoiced at the end of a stem ('كىتابقا'), '-قا' also after غ and '-كە' after گ
+ *   ('تاغقا', 'بەگكە'); '-دا', '-غا', '-گە' never after voiceless ones
+ * - connecting vowels: 'ى', 'ىم', 'ۇم' only after consonants, 'سى', 'مىز' only after vowels
+ */
+function canFollow(stem: string, suffix: string): boolean {
+  const last = stem[stem.length - 1];
+  const first = suffix[0];
+
+  const assimilated = last === 'ب' || (first === 'ق' && last === 'غ') || (first === 'ك' && last === 'گ');
+  if ('تقك'.includes(first) && !VOICELESS_CONSONANTS.has(last) && !assimilated) return false;
+  if ('دغگ'.includes(first) && VOICELESS_CONSONANTS.has(last)) return false;
+  if ('ىۇۈ'.includes(first) && VOWELS.has(last)) return false;
+  if ((first === 'س' || first === 'م' || first === 'ڭ') && POSSESSIVE_SUFFIXES.includes(suffix)) {
+    return VOWELS.has(last);
+  }
+  return true;
+}
+
+/**
+ * Strip the longest suffix of a list that leaves a stem with a vowel
+ * and does not cut into a known noun
+ */
+function stripSuffix(word: string, suffixes: string[]): string {
+  const noun = NOUNS.find((candidate) => word.startsWith(candidate));
+  let best = word;
+
+  for (const suffix of suffixes) {
+    if (!word.endsWith(suffix)) continue;
+    const stem = word.slice(0, -suffix.length);
+    if (stem.length < 2 || countVowels(stem) === 0 || !canFollow(stem, suffix)) continue;
+    if (noun && stem.length < noun.length) continue;
+    if (stem.length < best.length) best = stem;
+  }
+
+  return best;
+}
+
+/**
+ * Strip case, possessive and plural suffixes
+ */
+function stripNounSuffixes(word: string): string {
+  let stem = stripSuffix(word, CASE_SUFFIXES);
+
+  let possessed = stripSuffix(stem, POSSESSIVE_SUFFIXES);
+  const suffix = stem.slice(possessed.length);
+  const licensed = PLURAL_SUFFIXES.some((plural) => possessed.endsWith(plural)) || NOUNS.includes(possessed);
+
+  // One-syllable stems with ا/ە weaken before a connecting ى ('ئات', 'ئېتى'), so
+  // in 'ئاتىسى' and 'بالىمىز' the ى is the weakened final vowel of the stem
+  if (suffix.startsWith('ى') && countVowels(possessed) === 1 && /[اە]/.test(possessed)) {
+    possessed += 'ى';
+  }
+  if (licensed || !AMBIGUOUS_POSSESSIVE_SUFFIXES.includes(suffix)) stem = possessed;
+
+  return stripSuffix(stem, PLURAL_SUFFIXES);
+}
+
+/**
+ * Strip a verb suffix; verb stems do not end in ى ('ئەتىگەن' is not 'ئەتى' + '-گەن')
+ */
+function stripVerbSuffix(word: string): string {
+  const stem = stripSuffix(word, VERB_SUFFIXES);
+  return stem.endsWith('ى') ? word : stem;
+}
+
+/**
+ * Stem an Arabic-script word
+ */
+function stemArabic(word: string): string {
+  // Noun suffixes come first; participles take them too ('ئوقۇغاندا'). A verb
+  // suffix wins only when it strips more ('كەلدى' is not 'كەلد' + '-ى')
+  const noun = stripVerbSuffix(stripNounSuffixes(word));
+  const verb = stripVerbSuffix(word);
+  let stem = verb.length < noun.length ? verb : noun;
+
+  // A final ا/ە weakens to ى before suffixes ('بالا', 'بالىلار'), so all three
+  // are written as ى; 'دۇنيا' keeps its vowel, as it does in 'دۇنيادا'
+  if (/[اە]$/.test(stem) && stem[stem.length - 2] !== 'ي' && countVowels(stem) > 1) {
+    stem = stem.slice(0, -1) + 'ى';
+  }
+
+  return stem;
+}
+
+/**
+ * Reduce a Uyghur word to its stem by stripping suffixes
+ * Strips case suffixes and particles, then possessive and plural suffixes
+ * ('كىتابلىرىمىزدىن' → 'كىتاب'), or common verb endings ('كەلگەن' → 'كەل')
+ * when they strip more than the noun suffixes. Verb stems never end in ى,
+ * and common nouns that end like verbs ('تاماق', 'ئورۇندۇق') are kept whole.
+ *
+ * Stems are keys for search rather than dictionary forms: a final ا or ە
+ * of a longer word is written as ى, since it weakens before suffixes, so
+ * 'بالا' and 'بالىلار' both give 'بالى', and 'ئاتا' (father) stays apart
+ * from 'ئات' (horse). Vowels weakened inside the word ('قەلىمى', 'بېشى')
+ * are not restored. First- and second-person singular
+ * possessives ('-ىم', '-ىڭ') also end stems ('مۇئەللىم'), so they are only
+ * stripped after a plural: 'كىتابلىرىم' gives 'كىتاب', 'كىتابىم' is kept.
+ *
+ * @param word - A single word, in Arabic script, ULY or Cyrillic
+ * @returns The stem, in the script of the word
+ *
+ * @example
+ * ```ts
+ * stemUyghur('كىتابلىرىمىزدىن') // 'كىتاب'
+ * stemUyghur('مەكتەپكە') // 'مەكتەپ'
+ * stemUyghur('ئوقۇيدۇ') // 'ئوقۇ'
+ * stemUyghur('balilar') // 'bali'
+ * ```
+ */
+export function stemUyghur(word: string): string {
+  if (!word) return '';
+
+  if (/\p{Script=Cyrillic}/u.test(word)) {
+    const result = toCyrillic(stemArabic(fromCyrillic(word.toLowerCase())));
+    return /^\p{Lu}/u.test(word) ? result[0].toUpperCase() + result.slice(1) : result;
+  }
+
+  if (/\p{Script=Latin}/u.test(word)) {
+    const result = toULY(stemArabic(toArabic(word.toLowerCase())));
+    return /^\p{Lu}/u.test(word) ? result[0].toUpperCase() + result.slice(1) : result;
+  }
+
+  return stemArabic(word);
+}
@@ -0,0 +1,246 @@
+/**
+ * Streaming utilities
+ * Transliterate and normalize large texts chunk by chunk, with output identical to the string APIs
+ */
+
+import { containsArabicScript } from './detect';
+import { normalizeUyghur } from './normalize';
+import { capitalizeLatin, toArabic, toULY, type TransliterateOptions } from './transliterate';
+
+/**
+ * Conversion applied by a stream
+ */
+type StreamMode = 'uly' | 'arabic' | 'normalize';
+
+/**
+ * Incremental processor shared by the WHATWG and async-iterable adapters
+ */
+interface ChunkProcessor {
+  push(chunk: string): string;
+  flush(): string;
+}
+
+/**
+ * Create a chunk processor
+ *
+ * Words are only converted once the whitespace that ends them has arrived, so
+ * digraphs, hamza context and surrogate pairs never straddle a chunk boundary.
+ * Whitespace is emitted the way the string APIs produce it: collapsed for
+ * `toULY` and `normalizeUyghur`, one space per character for `toArabic`,
+ * and trimmed at both ends of the stream.
+ */
+function createChunkProcessor(mode: StreamMode, options?: TransliterateOptions): ChunkProcessor {
+  // normalizeUyghur removes BOM before collapsing whitespace, so it is part of a word there
+  const whitespace = mode === 'normalize' ? /[^\S\ufeff]+/ : /\s+/;
+  const wordOptions: TransliterateOptions = { ...options, preserveCase: false };
+  const capitalize = mode === 'uly' && options?.preserveCase;
+  let buffer = '';
+  let pending = '';
+  let started = false;
+  let sentenceStart = true;
+
+  // With `preserveCase`, converted words are held back until a proper noun of
+  // several words ('ئۈرۈمچى شەھىرى') starting at the first of them can be matched
+  const nounLength = Math.max(
+    1,
+    ...(options?.properNouns ?? []).map((noun) => (containsArabicScript(noun) ? toULY(noun) : noun).split(' ').length)
+  );
+  const held: string[] = [];
+
+  const convertWord = (word: string): string => {
+    if (mode === 'normalize') return normalizeUyghur(word);
+    if (mode === 'arabic') return toArabic(word, options);
+    return toULY(word, wordOptions);
+  };
+
+  const emit = (word: string): string => {
+    const output = (started ? pending : '') + word;
+    pending = '';
+    started = true;
+    return output;
+  };
+
+  // Capitalize the held words together and emit the first `count` of them
+  const release = (count: number): string => {
+    const words = capitalizeLatin(held.join(' '), options?.properNouns, sentenceStart).split(' ');
+    held.splice(0, held.length, ...words.slice(count));
+
+    let output = '';
+    for (const word of words.slice(0, count)) {
+      pending = ' ';
+      output += emit(word);
+      sentenceStart = /[.!?؟]$/.test(word);
+    }
+    return output;
+  };
+
+  const processText = (text: string): string => {
+    let output = '';
+
+    for (const part of text.split(new RegExp(`(${whitespace.source})`))) {
+      if (!part) continue;
+
+      if (whitespace.test(part)) {
+        pending = mode === 'arabic' ? pending + ' '.repeat(part.length) : ' ';
+        continue;
+      }
+
+      const converted = convertWord(part);
+      if (!converted) continue;
+
+      if (capitalize) {
+        held.push(converted);
+        if (held.length >= nounLength) output += release(held.length - nounLength + 1);
+      } else {
+        output += emit(converted);
+      }
+    }
+
+    return output;
+  };
+
+  return {
+    push(chunk: string): string {
+      buffer += chunk;
+
+      // Keep the trailing (possibly incomplete) word for the next chunk
+      let cut = buffer.length;
+      while (cut > 0 && !whitespace.test(buffer[cut - 1])) cut--;
+
+      const ready = buffer.slice(0, cut);
+      buffer = buffer.slice(cut);
+      return processText(ready);
+    },
+    flush(): string {
+      const output = processText(buffer) + (held.length > 0 ? release(held.length) : '');
+      buffer = '';
+      return output;
+    },
+  };
+}
+
+/**
+ * Wrap a chunk processor in a WHATWG TransformStream
+ */
+function createTransformStream(processor: ChunkProcessor): TransformStream<string, string> {
+  return new TransformStream<string, string>({
+    transform(chunk, controller) {
+      const output = processor.push(chunk);
+      if (output) controller.enqueue(output);
+    },
+    flush(controller) {
+      const output = processor.flush();
+      if (output) controller.enqueue(output);
+    },
+  });
+}
+
+/**
+ * Run a chunk processor over an async iterable, decoding UTF-8 byte chunks
+ */
+async function* processIterable(
+  source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>,
+  processor: ChunkProcessor
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+
+  for await (const chunk of source) {
+    const text = typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    const output = processor.push(text);
+    if (output) yield output;
+  }
+
+  const output = processor.push(decoder.decode()) + processor.flush();
+  if (output) yield output;
+}
+
+/**
+ * Create a WHATWG TransformStream that transliterates Arabic script to ULY
+ * Produces the same output as `toULY` on the whole text
+ *
+ * @param options - Transliteration options
+ * @returns A TransformStream of text chunks
+ *
+ * @example
+ * ```ts
+ * await response.body
+ *   .pipeThrough(new TextDecoderStream())
+ *   .pipeThrough(createULYStream())
+ *   .pipeTo(writable);
+ * ```
+ */
+export function createULYStream(options?: TransliterateOptions): TransformStream<string, string> {
+  return createTransformStream(createChunkProcessor('uly', options));
+}
+
+/**
+ * Create a WHATWG TransformStream that transliterates ULY to Arabic script
+ * Produces the same output as `toArabic` on the whole text
+ *
+ * @param options - Transliteration options
+ * @returns A TransformStream of text chunks
+ */
+export function createArabicStream(options?: TransliterateOptions): TransformStream<string, string> {
+  return createTransformStream(createChunkProcessor('arabic', options));
+}
+
+/**
+ * Create a WHATWG TransformStream that normalizes Uyghur text
+ * Produces the same output as `normalizeUyghur` on the whole text
+ *
+ * @returns A TransformStream of text chunks
+ */
+export function createNormalizeStream(): TransformStream<string, string> {
+  return createTransformStream(createChunkProcessor('normalize'));
+}
+
+/**
+ * Transliterate an iterable of chunks from Arabic script to ULY
+ * Accepts strings or UTF-8 bytes, so Node readable streams can be passed directly
+ *
+ * @param source - Text or byte chunks (e.g. a Node readable stream)
+ * @param options - Transliteration options
+ * @returns An async generator of text chunks, usable with `stream.pipeline` and `Readable.from`
+ *
+ * @example
+ * ```ts
+ * import { createReadStream, createWriteStream } from 'node:fs';
+ * import { pipeline } from 'node:stream/promises';
+ *
+ * await pipeline(createReadStream('in.txt'), (source) => streamToULY(source), createWriteStream('out.txt'));
+ * ```
+ */
+export function streamToULY(
+  source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>,
+  options?: TransliterateOptions
+): AsyncGenerator<string> {
+  return processIterable(source, createChunkProcessor('uly', options));
+}
+
+/**
+ * Transliterate an iterable of chunks from ULY to Arabic script
+ * Accepts strings or UTF-8 bytes, so Node readable streams can be passed directly
+ *
+ * @param source - Text or byte chunks (e.g. a Node readable stream)
+ * @param options - Transliteration options
+ * @returns An async generator of text chunks, usable with `stream.pipeline` and `Readable.from`
+ */
+export function streamToArabic(
+  source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>,
+  options?: TransliterateOptions
+): AsyncGenerator<string> {
+  return processIterable(source, createChunkProcessor('arabic', options));
+}
+
+/**
+ * Normalize an iterable of chunks of Uyghur text
+ * Accepts strings or UTF-8 bytes, so Node readable streams can be passed directly
+ *
+ * @param source - Text or byte chunks (e.g. a Node readable stream)
+ * @returns An async generator of text chunks, usable with `stream.pipeline` and `Readable.from`
+ */
+export function streamNormalizeUyghur(
+  source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>
+): AsyncGenerator<string> {
+  return processIterable(source, createChunkProcessor('normalize'));
+}
@@ -0,0 +1,242 @@
+/**
+ * Suffix utilities
+ * Attach suffixes following Uyghur vowel harmony and consonant assimilation
+ */
+
+import {
+  UYGHUR_BACK_VOWELS_ARABIC,
+  UYGHUR_CONSONANTS_ARABIC,
+  UYGHUR_FRONT_VOWELS_ARABIC,
+  UYGHUR_VOICELESS_CONSONANTS_ARABIC,
+  UYGHUR_VOWELS_ARABIC,
+} from './constants';
+import { fromCyrillic, toArabic, toCyrillic, toULY } from './transliterate';
+
+/**
+ * Options for attaching suffixes
+ */
+export interface AttachSuffixOptions {
+  /**
+   * Weaken ا/ە in the last syllable of the word when the suffix adds a syllable
+   * to it: 'بالا' → 'بالىلار', 'قەلەم' → 'قەلىمى', 'باش' → 'بېشى' (default: true)
+   */
+  weakening?: boolean;
+  /**
+   * Vowel harmony of the word, for words whose vowels do not decide it
+   * (default: from the word, see `isBackWord`)
+   */
+  harmony?: 'back' | 'front';
+}
+
+const VOWELS = new Set<string>(UYGHUR_VOWELS_ARABIC);
+const CONSONANTS = new Set<string>(UYGHUR_CONSONANTS_ARABIC);
+const BACK_VOWELS = new Set<string>(UYGHUR_BACK_VOWELS_ARABIC);
+const FRONT_VOWELS = new Set<string>(UYGHUR_FRONT_VOWELS_ARABIC);
+const VOICELESS_CONSONANTS = new Set<string>(UYGHUR_VOICELESS_CONSONANTS_ARABIC);
+
+/**
+ * Words with only neutral vowels and no ك or گ that nevertheless take front suffixes ('بىرگە')
+ */
+const FRONT_NEUTRAL_WORDS = new Set(['بىر', 'بىز', 'سىز', 'بىلىم', 'پىكىر']);
+
+/**
+ * Words (mostly loanwords) whose vowels do not weaken: 'كىتابى', not 'كىتىبى'
+ */
+const NO_WEAKENING_WORDS = new Set(['كىتاب', 'ئىنسان', 'ئىمتىھان', 'سان']);
+
+/**
+ * Suffix-initial velar consonants by [back, voiceless]
+ */
+const VELARS = { back: { voiced: 'غ', voiceless: 'ق' }, front: { voiced: 'گ', voiceless: 'ك' } };
+
+/**
+ * Rounded vowels and the connecting vowel they call for in '-ۇم' and '-ۇڭ' ('قولۇم', 'كۆزۈم')
+ */
+const ROUNDED_CONNECTING_VOWELS: Record<string, string> = { و: 'ۇ', ۇ: 'ۇ', ۆ: 'ۈ', ۈ: 'ۈ' };
+
+/**
+ * Check if a word (Arabic script) takes back suffix variants
+ * The last non-neutral vowel decides; words with only ى/ې follow their
+ * velars (ق, غ, خ are back, ك, گ front) and default to back ('يىللار', 'تىلدا')
+ */
+export function isBackWord(word: string): boolean {
+  for (let i = word.length - 1; i >= 0; i--) {
+    if (BACK_VOWELS.has(word[i])) return true;
+    if (FRONT_VOWELS.has(word[i])) return false;
+  }
+  if (/[قغخ]/.test(word)) return true;
+  return !FRONT_NEUTRAL_WORDS.has(word) && !/[كگ]/.test(word);
+}
+
+/**
+ * Check if a word (Arabic script) ends in a voiceless consonant
+ */
+export function endsVoiceless(word: string): boolean {
+  return VOICELESS_CONSONANTS.has(word[word.length - 1]);
+}
+
+/**
+ * Choose the variant of a suffix that agrees with a word (Arabic script)
+ * Any variant can be given: 'غا', 'قا', 'گە' and 'كە' all give the same result.
+ * A velar assimilates to a final velar ('تاغقا', 'بەگكە') and a final ب is
+ * devoiced before it ('كىتابقا'). A ULY suffix ('ge') is answered in ULY.
+ */
+export function harmonizeSuffix(word: string, suffix: string, back = isBackWord(word)): string {
+  if (/\p{Script=Latin}/u.test(suffix)) return toULY(harmonizeSuffix(word, toArabicSuffix(suffix), back));
+
+  const last = word[word.length - 1];
+  const voiceless = endsVoiceless(word);
+  const velars = back ? VELARS.back : VELARS.front;
+  let velar = voiceless || last === 'ب' ? velars.voiceless : velars.voiced;
+  if (last === 'ق' || last === 'غ') velar = VELARS.back.voiceless;
+  else if (last === 'ك' || last === 'گ') velar = VELARS.front.voiceless;
+
+  return Array.from(suffix)
+    .map((char, index) => {
+      if (index === 0 && 'غقگك'.includes(char)) return velar;
+      if (index === 0 && 'دت'.includes(char)) return voiceless ? 'ت' : 'د';
+      if (char === 'ا' || char === 'ە') return back ? 'ا' : 'ە';
+      return char;
+    })
+    .join('');
+}
+
+/**
+ * Convert a suffix to Arabic script, without a leading hyphen or the hamza
+ * that a word-initial vowel would take ('-im' → 'ىم', not 'ئىم')
+ */
+function toArabicSuffix(suffix: string): string {
+  const bare = suffix.replace(/^[-‐]/, '');
+  if (/\p{Script=Cyrillic}/u.test(bare)) return fromCyrillic(bare.toLowerCase()).replace(/^ئ/, '');
+  if (/\p{Script=Latin}/u.test(bare)) return toArabic(bare.toLowerCase()).replace(/^ئ/, '');
+  return bare;
+}
+
+/**
+ * Attach the ordinal suffix (-ىنچى/-نچى) to a word
+ * A final ە or ا is raised to ى ('ئالتە' → 'ئالتىنچى'), and so is one in the
+ * closed last syllable of a longer word ('توقسان' → 'توقسىنىنچى'); one-syllable
+ * words keep their vowel ('بەشىنچى')
+ */
+export function ordinalWord(word: string): string {
+  const last = word[word.length - 1];
+  if (last === 'ە' || last === 'ا') return word.slice(0, -1) + 'ىنچى';
+  if (/[ىوۇۆۈې]/.test(last)) return word + 'نچى';
+
+  const syllables = Array.from(word).filter((char) => VOWELS.has(char)).length;
+  return (syllables > 1 ? weaken(word, 'ىنچى') : word) + 'ىنچى';
+}
+
+/**
+ * Choose between suffix forms with and without a connecting vowel
+ * ('ى'/'سى', 'ىم'/'م', 'ىمىز'/'مىز'), rounding it where needed ('قولۇم')
+ */
+function connectSuffix(word: string, suffix: string): string {
+  const endsInVowel = VOWELS.has(word[word.length - 1]);
+
+  if (suffix === 'ى' || suffix === 'سى') return endsInVowel ? 'سى' : 'ى';
+  if (!suffix.startsWith('ى')) return suffix;
+  if (endsInVowel) return suffix.slice(1);
+
+  if (suffix === 'ىم' || suffix === 'ىڭ') {
+    const lastVowel = Array.from(word)
+      .reverse()
+      .find((char) => VOWELS.has(char));
+    const rounded = lastVowel && ROUNDED_CONNECTING_VOWELS[lastVowel];
+    if (rounded) return rounded + suffix.slice(1);
+  }
+
+  return suffix;
+}
+
+/**
+ * Choose the variant of a suffix that fits a word (Arabic script): harmony and
+ * voicing, then the connecting vowel ('ئىككى' + 'ى' → 'سى'). A ULY suffix is
+ * answered in ULY.
+ */
+export function suffixVariant(word: string, suffix: string, back = isBackWord(word)): string {
+  if (/\p{Script=Latin}/u.test(suffix)) return toULY(suffixVariant(word, toArabicSuffix(suffix), back));
+  return connectSuffix(word, harmonizeSuffix(word, suffix, back));
+}
+
+/**
+ * Weaken ا/ە in the last syllable of a word before a suffix that adds a syllable
+ * - a final vowel before a consonant and vowel: 'ئالما' + 'غا' → 'ئالمىغا'
+ * - the vowel of a closed last syllable before a vowel: 'قەلەم' + 'ى' → 'قەلىمى',
+ *   or ې in one-syllable words: 'باش' + 'ى' → 'بېشى'
+ */
+function weaken(word: string, suffix: string): string {
+  if (NO_WEAKENING_WORDS.has(word)) return word;
+
+  const vowels = Array.from(word.matchAll(/./gu))
+    .filter((match) => VOWELS.has(match[0]))
+    .map((match) => match.index ?? 0);
+  const last = vowels[vowels.length - 1];
+  if (last === undefined || (word[last] !== 'ا' && word[last] !== 'ە')) return word;
+
+  // 'دۇنيادا', not 'دۇنيىدا'
+  if (word[last - 1] === 'ي') return word;
+
+  if (last === word.length - 1) {
+    const addsSyllable = CONSONANTS.has(suffix[0]) && VOWELS.has(suffix[1]);
+    return vowels.length > 1 && addsSyllable ? word.slice(0, -1) + 'ى' : word;
+  }
+
+  // Only a single consonant closes the syllable: 'دەرسى' keeps its vowel
+  if (last !== word.length - 2 || !VOWELS.has(suffix[0])) return word;
+  return word.slice(0, last) + (vowels.length > 1 ? 'ى' : 'ې') + word.slice(last + 1);
+}
+
+/**
+ * Attach a suffix to an Arabic-script word
+ */
+function attachArabic(word: string, suffix: string, options?: AttachSuffixOptions): string {
+  if (suffix === 'ىنچى' || suffix === 'نچى') return ordinalWord(word);
+
+  const variant = suffixVariant(word, suffix, options?.harmony ? options.harmony === 'back' : undefined);
+  const stem = options?.weakening === false ? word : weaken(word, variant);
+  return stem + variant;
+}
+
+/**
+ * Attach a suffix to a word, following Uyghur sound rules
+ * - vowel harmony: '-لار' after back vowels, '-لەر' after front vowels
+ * - voicing: '-تا', '-قا', '-كە' after voiceless consonants, '-دا', '-غا', '-گە' otherwise
+ * - connecting vowels: 'كىتابى' but 'ئالمىسى', 'كىتابىم' but 'ئانام', 'قولۇم'
+ * - vowel weakening: 'بالىلار', 'قەلىمى', 'بېشى' (see `weakening`)
+ *
+ * Any variant of the suffix can be given, in Arabic script, ULY or Cyrillic,
+ * with or without a leading hyphen. The result is in the script of the word.
+ *
+ * @param word - The word, in Arabic script, ULY or Cyrillic
+ * @param suffix - The suffix, e.g. 'لار', 'دا', 'غا', 'نىڭ', 'ى', 'ىم' or '-ge'
+ * @param options - Options (`weakening`)
+ * @returns The word with the suffix
+ *
+ * @example
+ * ```ts
+ * attachSuffix('كىتاب', 'لەر') // 'كىتابلار'
+ * attachSuffix('ئۈرۈمچى', 'دا') // 'ئۈرۈمچىدە'
+ * attachSuffix('مەكتەپ', 'غا') // 'مەكتەپكە'
+ * attachSuffix('بالا', 'لار') // 'بالىلار'
+ * attachSuffix('قەلەم', 'ى') // 'قەلىمى'
+ * attachSuffix('Qeshqer', 'ge') // 'Qeshqerge'
+ * ```
+ */
+export function attachSuffix(word: string, suffix: string, options?: AttachSuffixOptions): string {
+  if (!word) return '';
+
+  const arabicSuffix = toArabicSuffix(suffix);
+
+  if (/\p{Script=Cyrillic}/u.test(word)) {
+    const result = toCyrillic(attachArabic(fromCyrillic(word.toLowerCase()), arabicSuffix, options));
+    return /^\p{Lu}/u.test(word) ? result[0].toUpperCase() + result.slice(1) : result;
+  }
+
+  if (/\p{Script=Latin}/u.test(word)) {
+    const result = toULY(attachArabic(toArabic(word.toLowerCase()), arabicSuffix, options));
+    return /^\p{Lu}/u.test(word) ? result[0].toUpperCase() + result.slice(1) : result;
+  }
+
+  return attachArabic(word, arabicSuffix, options);
+}
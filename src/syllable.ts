@@ -0,0 +1,117 @@
+/**
+ * Syllable utilities
+ * Split Uyghur words into syllables and insert soft hyphens for line breaking
+ */
+
+import { UYGHUR_VOWELS_ARABIC, UYGHUR_VOWELS_LATIN } from './constants';
+import { isLikelyULY, tokenize } from './segment';
+
+/**
+ * Options for hyphenation
+ */
+export interface HyphenateOptions {
+  /** Shortest word, in characters, to hyphenate (default: 6) */
+  minWordLength?: number;
+  /** String inserted at break points (default: U+00AD SOFT HYPHEN) */
+  hyphen?: string;
+}
+
+const SOFT_HYPHEN = '\u00ad';
+
+const VOWELS = new Set<string>([...UYGHUR_VOWELS_ARABIC, ...UYGHUR_VOWELS_LATIN]);
+
+/**
+ * Letters of a word, with combining marks kept on their base letter and ULY
+ * digraphs ('ch', 'gh', 'ng', 'sh', 'zh') kept together as one consonant
+ */
+const LETTER_PATTERN = /[cgsz]h|ng|.\p{M}*/giu;
+
+/**
+ * Fewest characters left on either side of a line break
+ */
+const MIN_FRAGMENT_LENGTH = 2;
+
+/**
+ * Split a word into syllables
+ * Every syllable has one vowel. A single consonant between vowels starts the
+ * next syllable ('كى-تاب'); of several, only the last does ('مەك-تەپ',
+ * 'تۈرك-چە'). Hamza (ئ) and the ULY apostrophe count as consonants.
+ *
+ * @param word - A single word, in Arabic script or ULY
+ * @returns The syllables of the word, or the word itself if it has fewer than two vowels
+ *
+ * @example
+ * ```ts
+ * syllabify('ئۇيغۇرچە') // ['ئۇي', 'غۇر', 'چە']
+ * syllabify('mektep') // ['mek', 'tep']
+ * syllabify("sa'et") // ['sa', "'et"]
+ * ```
+ */
+export function syllabify(word: string): string[] {
+  if (!word) return [];
+
+  const letters = word.match(LETTER_PATTERN) ?? [];
+  const vowels = letters.flatMap((letter, index) =>
+    VOWELS.has(letter.normalize('NFC').toLowerCase()) ? [index] : []
+  );
+  if (vowels.length < 2) return [word];
+
+  const starts = vowels.slice(1).map((vowel, index) => (vowel - vowels[index] > 1 ? vowel - 1 : vowel));
+
+  return [0, ...starts].map((start, index) => letters.slice(start, starts[index] ?? letters.length).join(''));
+}
+
+/**
+ * Hyphenate a single word, keeping at least two characters on each side of a break
+ */
+function hyphenateWord(word: string, minWordLength: number, hyphen: string): string {
+  if (Array.from(word).length < minWordLength) return word;
+
+  const syllables = syllabify(word);
+  const length = (text: string) => Array.from(text).length;
+
+  while (syllables.length > 1 && length(syllables[0]) < MIN_FRAGMENT_LENGTH) {
+    syllables.splice(0, 2, syllables[0] + syllables[1]);
+  }
+  while (syllables.length > 1 && length(syllables[syllables.length - 1]) < MIN_FRAGMENT_LENGTH) {
+    syllables.splice(-2, 2, syllables[syllables.length - 2] + syllables[syllables.length - 1]);
+  }
+
+  return syllables.join(hyphen);
+}
+
+/**
+ * Insert soft hyphens (U+00AD) between the syllables of Uyghur words
+ * Browsers and e-readers break long words at soft hyphens and show a hyphen
+ * only there. Arabic-script and ULY words are hyphenated; other Latin words
+ * (English, product names), numbers and URLs are left alone. Soft hyphens
+ * already in the text are replaced.
+ *
+ * @param text - The text to hyphenate
+ * @param options - Hyphenation options (`minWordLength`, `hyphen`)
+ * @returns The text with soft hyphens
+ *
+ * @example
+ * ```ts
+ * hyphenate('ئۇيغۇرچە كىتاب', { hyphen: '-' }) // 'ئۇي-غۇر-چە كىتاب'
+ * hyphenate('Uyghurche iPhone', { hyphen: '-' }) // 'Uy-ghur-che iPhone'
+ * ```
+ */
+export function hyphenate(text: string, options?: HyphenateOptions): string {
+  if (!text) return '';
+
+  const minWordLength = options?.minWordLength ?? 6;
+  const hyphen = options?.hyphen ?? SOFT_HYPHEN;
+
+  return tokenize(text.replaceAll(SOFT_HYPHEN, ''))
+    .map((token) => {
+      if (token.type !== 'word') return token.text;
+      if (token.script !== 'arabic' && token.script !== 'latin') return token.text;
+
+      // Hyphenated compounds ('ئۆز-ئۆزىنى') are hyphenated part by part
+      return token.text.replace(/[^-]+/g, (part) =>
+        token.script === 'latin' && !isLikelyULY(part) ? part : hyphenateWord(part, minWordLength, hyphen)
+      );
+    })
+    .join('');
+}
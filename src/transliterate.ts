@@ -1,17 +1,146 @@
 /**
  * Transliteration utilities for Uyghur
- * Supports bidirectional conversion between Arabic script and ULY (Uyghur Latin Yéziqi)
+ * Supports bidirectional conversion between Arabic script, ULY (Uyghur Latin Yéziqi)
+ * and UKY (Uyghur Cyrillic)
  */
 
 import {
+  ARABIC_TO_LATIN_PUNCTUATION,
   COMPLETE_ARABIC_TO_LATIN,
+  CYRILLIC_TO_ULY,
   LATIN_TO_UYGHUR_ARABIC,
+  ULY_TO_ASCII,
+  ULY_TO_CYRILLIC,
+  ULY_TO_UYY,
+  UYGHUR_ARABIC_TO_LATIN,
+  UYGHUR_VOWELS_ARABIC,
+  UYGHUR_VOWELS_LATIN,
 } from './constants/alphabet';
+import { containsArabicScript, containsCyrillic } from './detect';
+import { foldPresentationForms } from './normalize';
+import { convertPunctuation } from './punctuation';
+import { segmentText } from './segment';
+
+/**
+ * Hamza on yeh - written before a vowel that starts a syllable
+ */
+const HAMZA = 'ئ';
+
+const ARABIC_VOWELS = new Set<string>(UYGHUR_VOWELS_ARABIC);
+const LATIN_VOWELS = new Set<string>(UYGHUR_VOWELS_LATIN);
+
+/**
+ * Multi-character Latin sequences that map to single Arabic characters
+ * Must be checked before single characters
+ */
+const MULTI_CHAR_LATIN = ['ch', 'zh', 'sh', 'gh', 'ng'] as const;
+
+const DIGRAPHS = new Set<string>(MULTI_CHAR_LATIN);
+
+/**
+ * Check if two adjacent Latin spellings would be misread as a digraph
+ * (e.g. `n` + `g` reads as `ng`), so ULY must separate them with an apostrophe
+ */
+function formsDigraph(left: string | undefined, right: string | undefined): boolean {
+  if (!left || !right) return false;
+  return DIGRAPHS.has(left.slice(-1) + right[0]);
+}
+
+/**
+ * Check if a character is an Arabic-script Uyghur consonant
+ */
+function isArabicConsonant(char: string | undefined): boolean {
+  return char !== undefined && char in UYGHUR_ARABIC_TO_LATIN && !ARABIC_VOWELS.has(char);
+}
+
+/**
+ * Options for transliteration
+ */
+export interface TransliterateOptions {
+  /**
+   * Preserve case in output (only applies to Latin output)
+   * Arabic script has no case, so Latin output is capitalized at sentence starts
+   * and for `properNouns`
+   */
+  preserveCase?: boolean;
+  /**
+   * Proper nouns to capitalize when `preserveCase` is set, in Arabic script or ULY
+   * Inflected forms are matched too (e.g. `ürümchi` capitalizes `ürümchide`)
+   */
+  properNouns?: string[];
+  /** Include unmapped characters (emoji, CJK, symbols, ...) in output */
+  includeUnmapped?: boolean;
+  /** Convert punctuation to the target script's conventions (default: true) */
+  punctuation?: boolean;
+  /** Conversion direction (default: 'auto', detected from the input script) */
+  direction?: 'toLatin' | 'toArabic' | 'auto';
+  /**
+   * Convert only Uyghur spans (see `segmentText`), keeping URLs, emails, code,
+   * numbers, punctuation and foreign words byte-identical
+   */
+  mixedContent?: boolean;
+  /** Latin words never treated as Uyghur in `mixedContent` mode (case-insensitive) */
+  foreignWords?: string[];
+  /** Output script (default: Latin for Arabic input, Arabic otherwise) */
+  target?: 'latin' | 'arabic' | 'cyrillic';
+  /** Latin romanization scheme for Latin input and output (default: 'uly') */
+  scheme?: string | LatinScheme;
+}
+
+/**
+ * Escape a string for use inside a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Suffixes a proper noun may carry in ULY, in the order they attach:
+ * plural, possessive, then case
+ */
+const PROPER_NOUN_SUFFIXES = [
+  ['lar', 'ler', 'lir'],
+  ['imiz', 'miz', 'ingiz', 'ngiz', 'im', 'um', 'üm', 'ing', 'ung', 'üng', 'si', 'i'],
+  [
+    'ghiche', 'giche', 'qiche', 'kiche', 'diki', 'tiki', 'ning', 'din', 'tin', 'dek', 'tek',
+    'gha', 'ge', 'qa', 'ke', 'da', 'de', 'ta', 'te', 'ni',
+  ],
+]
+  .map((suffixes) => `(?:${suffixes.join('|')})?`)
+  .join('');
+
+/**
+ * Capitalize Latin output at sentence starts and for the given proper nouns
+ * A proper noun matches as a whole word, optionally followed by suffixes
+ * ('ürümchi' capitalizes 'ürümchide' but 'ali' does not capitalize 'alim');
+ * every word of a proper noun of several words is capitalized
+ */
+export function capitalizeLatin(text: string, properNouns: string[] = [], atSentenceStart = true): string {
+  let result = text.replace(/([.!?؟]\s+)(\p{Ll})/gu, (_, before: string, letter: string) =>
+    before + letter.toUpperCase()
+  );
+
+  if (atSentenceStart) {
+    result = result.replace(/^\p{Ll}/u, (letter) => letter.toUpperCase());
+  }
+
+  for (const noun of properNouns) {
+    const latin = containsArabicScript(noun) ? toULY(noun) : noun.toLowerCase();
+    if (!latin) continue;
+    const pattern = new RegExp(`(?<![\\p{L}'])${escapeRegExp(latin)}${PROPER_NOUN_SUFFIXES}(?!\\p{L})`, 'giu');
+    result = result.replace(pattern, (match) =>
+      match.replace(/(^|\s)(\p{Ll})/gu, (_, space: string, letter: string) => space + letter.toUpperCase())
+    );
+  }
+
+  return result;
+}
 
 /**
  * Transliterate Uyghur text from Arabic script to Latin (ULY)
  *
  * @param text - The Uyghur text in Arabic script
+ * @param options - Transliteration options (`preserveCase`, `properNouns`, `includeUnmapped`, `punctuation`)
  * @returns The transliterated text in ULY (Latin)
  *
  * @example
@@ -19,31 +148,60 @@ import {
  * toULY('نوزۇگۇم') // 'nozugum'
  * toULY('سالام دۇنيا') // 'salam dunya'
  * toULY('ئۇيغۇرچە') // 'uyghurche'
+ * toULY('مەسئۇل') // "mes'ul"
+ * toULY('مۆئمىن') // "mö'min"
+ * toULY('مەنگۈ') // "men'gü"
+ * toULY('سالام. رەھمەت', { preserveCase: true }) // 'Salam. Rehmet'
+ * toULY('سالام 😊', { includeUnmapped: true }) // 'salam 😊'
+ * toULY('سالام، دۇنيا؟') // 'salam, dunya?'
+ * toULY('ﺳﺎﻻﻡ') // 'salam' (presentation forms are folded first)
  * ```
  */
-export function toULY(text: string): string {
+export function toULY(text: string, options?: TransliterateOptions): string {
   if (!text) return '';
 
   let result = '';
+  let prev: string | undefined;
+  const chars = Array.from(foldPresentationForms(text));
 
-  for (const char of text) {
+  for (const [index, char] of chars.entries()) {
     const mapped = COMPLETE_ARABIC_TO_LATIN[char];
-    if (mapped !== undefined) {
+    if (char === HAMZA) {
+      // Hamza after a consonant, or between a vowel and a consonant ('مۆئمىن'),
+      // is written as an apostrophe in ULY; word-initially and between vowels
+      // it is implied
+      const next = chars[index + 1];
+      if (isArabicConsonant(prev) || (prev !== undefined && ARABIC_VOWELS.has(prev) && isArabicConsonant(next))) {
+        result += "'";
+      }
+    } else if (mapped !== undefined) {
+      if (prev !== undefined && formsDigraph(COMPLETE_ARABIC_TO_LATIN[prev], mapped)) {
+        result += "'";
+      }
       result += mapped;
     } else if (/\s/.test(char)) {
       result += ' ';
     } else if (/[a-zA-Z0-9]/.test(char)) {
       // Keep existing Latin characters and numbers
       result += char;
-    } else if (/[.,!?;:'"()-]/.test(char)) {
+    } else if (/[.,!?;:'"()%-]/.test(char) || char in ARABIC_TO_LATIN_PUNCTUATION) {
       // Keep common punctuation
       result += char;
+    } else if (options?.includeUnmapped) {
+      result += char;
     }
     // Skip other characters
+    prev = char;
   }
 
   // Clean up multiple spaces
-  return result.replace(/\s+/g, ' ').trim();
+  result = result.replace(/\s+/g, ' ').trim();
+
+  if (options?.punctuation !== false) {
+    result = convertPunctuation(result, 'latin');
+  }
+
+  return options?.preserveCase ? capitalizeLatin(result, options.properNouns) : result;
 }
 
 /**
@@ -51,16 +209,17 @@ export function toULY(text: string): string {
  */
 export const arabicToLatin = toULY;
 
-/**
- * Multi-character Latin sequences that map to single Arabic characters
- * Must be checked before single characters
- */
-const MULTI_CHAR_LATIN = ['ch', 'zh', 'sh', 'gh', 'ng'] as const;
-
 /**
  * Transliterate Uyghur text from Latin (ULY) to Arabic script
  *
+ * A hamza (ئ) is inserted before every vowel that begins a syllable:
+ * at the start of a word, after another vowel, and where ULY marks it
+ * with an apostrophe (e.g. `mes'ul`, `mö'min`). An apostrophe between two consonants
+ * splits what would otherwise be read as a digraph (`n'g` → نگ, `ng` → ڭ).
+ * Text already in Arabic script is kept as is.
+ *
  * @param text - The Uyghur text in ULY (Latin)
+ * @param options - Transliteration options (`includeUnmapped`, `punctuation`)
  * @returns The transliterated text in Arabic script
  *
  * @example
@@ -68,14 +227,26 @@ const MULTI_CHAR_LATIN = ['ch', 'zh', 'sh', 'gh', 'ng'] as const;
  * toArabic('nozugum') // 'نوزۇگۇم'
  * toArabic('salam dunya') // 'سالام دۇنيا'
  * toArabic('uyghurche') // 'ئۇيغۇرچە'
+ * toArabic('sual') // 'سۇئال'
+ * toArabic("mes'ul") // 'مەسئۇل'
+ * toArabic("men'gü") // 'مەنگۈ'
+ * toArabic('salam @Ali', { includeUnmapped: true }) // 'سالام @ئالى'
+ * toArabic('salam, dunya?') // 'سالام، دۇنيا؟'
  * ```
  */
-export function toArabic(text: string): string {
+export function toArabic(text: string, options?: TransliterateOptions): string {
   if (!text) return '';
 
   let result = '';
   let i = 0;
-  const lowerText = text.toLowerCase();
+  // Arabic-script text passes through, so fold its presentation forms like toULY;
+  // composing keeps decomposed letters ('o' + U+0308) as one ULY letter ('ö')
+  const source = foldPresentationForms(text).normalize('NFC');
+  const lowerText = source.toLowerCase();
+  // Hamza context: are we at a word start, or right after a vowel/apostrophe?
+  let wordStart = true;
+  let afterVowel = false;
+  let afterApostrophe = false;
 
   while (i < lowerText.length) {
     let matched = false;
@@ -88,6 +259,7 @@ export function toArabic(text: string): string {
           result += mapped;
           i += seq.length;
           matched = true;
+          wordStart = afterVowel = afterApostrophe = false;
           break;
         }
       }
@@ -98,21 +270,47 @@ export function toArabic(text: string): string {
       const mapped = LATIN_TO_UYGHUR_ARABIC[char];
 
       if (mapped) {
+        const isVowel = LATIN_VOWELS.has(char);
+        if (isVowel && (wordStart || afterVowel || afterApostrophe)) {
+          result += HAMZA;
+        }
         result += mapped;
+        wordStart = afterApostrophe = false;
+        afterVowel = isVowel;
+      } else if (char === "'" && !wordStart && LATIN_VOWELS.has(lowerText[i + 1])) {
+        // Word-internal apostrophe before a vowel marks a hamza
+        afterApostrophe = true;
+      } else if (char === "'" && afterVowel && LATIN_TO_UYGHUR_ARABIC[lowerText[i + 1]]) {
+        // Apostrophe between a vowel and a consonant marks a hamza ("mö'min")
+        result += HAMZA;
+        afterApostrophe = true;
+      } else if (char === "'" && !wordStart && formsDigraph(lowerText[i - 1], lowerText[i + 1])) {
+        // Apostrophe separating two letters that would otherwise form a digraph
+        afterApostrophe = true;
       } else if (/\s/.test(char)) {
         result += ' ';
       } else if (/[0-9]/.test(char)) {
         result += char;
-      } else if (/[.,!?;:'"()-]/.test(char)) {
+      } else if (/[.,!?;:'"()%“”-]/.test(char)) {
         result += char;
+      } else if (options?.includeUnmapped || containsArabicScript(char)) {
+        // Keep the original case of characters passed through
+        result += source[i];
       }
       // Skip unmapped characters
 
+      if (!mapped && !afterApostrophe) {
+        // Unmapped letters ('c' in 'Coca') continue the word
+        wordStart = !/[\p{L}\p{M}]/u.test(char);
+        afterVowel = false;
+      }
       i++;
     }
   }
 
-  return result.trim();
+  result = result.trim();
+
+  return options?.punctuation !== false ? convertPunctuation(result, 'arabic') : result;
 }
 
 /**
@@ -121,13 +319,398 @@ export function toArabic(text: string): string {
 export const latinToArabic = toArabic;
 
 /**
- * Options for transliteration
+ * Apply the case of a source letter to its transliteration
+ * An uppercase letter followed by another uppercase letter is treated as part
+ * of an all-caps word; otherwise only the first output letter is capitalized
  */
-export interface TransliterateOptions {
-  /** Preserve case in output (only applies to Latin output) */
-  preserveCase?: boolean;
-  /** Include unmapped characters in output */
-  includeUnmapped?: boolean;
+function matchCase(source: string, next: string | undefined, mapped: string): string {
+  if (source === source.toLowerCase()) return mapped;
+  if (next !== undefined && next !== next.toLowerCase() && next === next.toUpperCase()) {
+    return mapped.toUpperCase();
+  }
+  return mapped.charAt(0).toUpperCase() + mapped.slice(1);
+}
+
+/**
+ * Transliterate Uyghur text to Cyrillic script (UKY)
+ * Accepts either Arabic script or Latin (ULY) input
+ *
+ * @param text - The Uyghur text in Arabic script or ULY
+ * @param options - Options applied when converting Arabic script input
+ * @returns The transliterated text in Cyrillic
+ *
+ * @example
+ * ```ts
+ * toCyrillic('ئۇيغۇرچە') // 'уйғурчә'
+ * toCyrillic('Uyghur') // 'Уйғур'
+ * toCyrillic('yash') // 'яш'
+ * ```
+ */
+export function toCyrillic(text: string, options?: TransliterateOptions): string {
+  if (!text) return '';
+
+  const latin = containsArabicScript(text) ? toULY(text, options) : text;
+  let result = '';
+  let i = 0;
+
+  while (i < latin.length) {
+    const char = latin[i];
+
+    // Apostrophes between letters only disambiguate ULY spelling
+    if (
+      char === "'" &&
+      ULY_TO_CYRILLIC[latin[i - 1]?.toLowerCase()] !== undefined &&
+      ULY_TO_CYRILLIC[latin[i + 1]?.toLowerCase()] !== undefined
+    ) {
+      i++;
+      continue;
+    }
+
+    // Check two-letter sequences (digraphs and iotated vowels) first
+    const pair = latin.slice(i, i + 2);
+    const length = ULY_TO_CYRILLIC[pair.toLowerCase()] !== undefined && pair.length === 2 ? 2 : 1;
+    const source = latin.slice(i, i + length);
+    const mapped = ULY_TO_CYRILLIC[source.toLowerCase()];
+
+    if (mapped !== undefined) {
+      result += matchCase(source[0], latin[i + length], mapped);
+    } else {
+      result += source;
+    }
+    i += length;
+  }
+
+  return result;
+}
+
+/**
+ * Transliterate Uyghur text from Cyrillic script (UKY)
+ *
+ * @param text - The Uyghur text in Cyrillic
+ * @param target - Output script (default: 'arabic')
+ * @param options - Options applied when producing Arabic script
+ * @returns The transliterated text in Arabic script or ULY
+ *
+ * @example
+ * ```ts
+ * fromCyrillic('уйғурчә') // 'ئۇيغۇرچە'
+ * fromCyrillic('Уйғур', 'latin') // 'Uyghur'
+ * fromCyrillic('мәнгү', 'latin') // "men'gü"
+ * ```
+ */
+export function fromCyrillic(
+  text: string,
+  target: 'latin' | 'arabic' = 'arabic',
+  options?: TransliterateOptions
+): string {
+  if (!text) return '';
+
+  const chars = Array.from(text);
+  let result = '';
+  let prev: string | undefined;
+
+  chars.forEach((char, index) => {
+    const mapped = CYRILLIC_TO_ULY[char.toLowerCase()];
+
+    if (mapped === undefined) {
+      result += char;
+      prev = undefined;
+    } else if (mapped !== '') {
+      if (formsDigraph(prev, mapped)) {
+        result += "'";
+      }
+      result += matchCase(char, chars[index + 1], mapped);
+      prev = mapped;
+    }
+  });
+
+  return target === 'arabic' ? toArabic(result, options) : result;
+}
+
+/**
+ * A Latin romanization scheme for Uyghur
+ * Described by how it spells each ULY letter, so every scheme can be
+ * converted to and from ULY (and through ULY, to and from Arabic script)
+ */
+export interface LatinScheme {
+  /** Unique name used to look the scheme up */
+  name: string;
+  /** Spellings of the ULY letters that differ in this scheme */
+  letters: Record<string, string>;
+  /** Alternative spellings accepted when reading the scheme, mapped to ULY letters */
+  aliases?: Record<string, string>;
+}
+
+/**
+ * ULY letters, digraphs first
+ */
+const ULY_LETTERS = Object.keys(LATIN_TO_UYGHUR_ARABIC).sort((a, b) => b.length - a.length);
+
+const SCHEME_REGISTRY = new Map<string, LatinScheme>();
+
+/**
+ * Register a Latin romanization scheme, replacing any scheme with the same name
+ *
+ * @param scheme - The scheme to register
+ *
+ * @example
+ * ```ts
+ * const pinyinLike = { name: 'pinyin-like', letters: { ch: 'q', sh: 'x' } };
+ * toScheme('چاي', pinyinLike) // 'qay' (scheme objects need no registration)
+ * registerScheme(pinyinLike);
+ * toScheme('چاي', 'pinyin-like') // 'qay'
+ * ```
+ */
+export function registerScheme(scheme: LatinScheme): void {
+  SCHEME_REGISTRY.set(scheme.name, scheme);
+}
+
+/**
+ * Look up a registered Latin romanization scheme
+ *
+ * @param name - The scheme name
+ * @returns The scheme, or undefined if none is registered under that name
+ */
+export function getScheme(name: string): LatinScheme | undefined {
+  return SCHEME_REGISTRY.get(name);
+}
+
+/**
+ * List the names of all registered Latin romanization schemes
+ *
+ * @returns Scheme names in registration order
+ */
+export function listSchemes(): string[] {
+  return Array.from(SCHEME_REGISTRY.keys());
+}
+
+registerScheme({ name: 'uly', letters: {} });
+registerScheme({
+  name: 'uyy',
+  letters: ULY_TO_UYY,
+  // Substitutes common where the UYY letters are not available
+  aliases: { 'ä': 'e', 'ö': 'ö', 'ğ': 'gh', 'ñ': 'ng' },
+});
+registerScheme({ name: 'ascii', letters: ULY_TO_ASCII });
+
+function resolveScheme(scheme: string | LatinScheme): LatinScheme {
+  if (typeof scheme !== 'string') return scheme;
+  const resolved = SCHEME_REGISTRY.get(scheme);
+  if (!resolved) {
+    throw new Error(`Unknown transliteration scheme: ${scheme}`);
+  }
+  return resolved;
+}
+
+/**
+ * Reading table for a scheme: spelling → ULY letter, longest spellings first
+ */
+function schemeReadingTable(scheme: LatinScheme): Array<[string, string]> {
+  const table = new Map<string, string>();
+  for (const letter of ULY_LETTERS) {
+    table.set(scheme.letters[letter] ?? letter, letter);
+  }
+  for (const [alias, letter] of Object.entries(scheme.aliases ?? {})) {
+    if (!table.has(alias)) table.set(alias, letter);
+  }
+  return Array.from(table).sort((a, b) => b[0].length - a[0].length);
+}
+
+/**
+ * Find the longest table entry matching text at a position (case-insensitive)
+ */
+function matchSpelling(
+  table: Array<[string, string]>,
+  text: string,
+  index: number
+): [string, string] | undefined {
+  return table.find(([spelling]) => text.slice(index, index + spelling.length).toLowerCase() === spelling);
+}
+
+/**
+ * Convert Uyghur text to a Latin romanization scheme
+ * Accepts either Arabic script or ULY input
+ *
+ * @param text - The Uyghur text in Arabic script or ULY
+ * @param scheme - Scheme name ('uly', 'uyy', 'ascii' or a registered name) or scheme object
+ * @param options - Options applied when converting Arabic script input
+ * @returns The text spelled in the requested scheme
+ *
+ * @example
+ * ```ts
+ * toScheme('ئۇيغۇرچە', 'uyy') // 'uyƣurqə'
+ * toScheme('Söhbet', 'ascii') // "So'hbet"
+ * toScheme('تەئسىر', 'ascii') // "te''sir" (an apostrophe after o, u or e is doubled)
+ * ```
+ */
+export function toScheme(
+  text: string,
+  scheme: string | LatinScheme,
+  options?: TransliterateOptions
+): string {
+  if (!text) return '';
+
+  const resolved = resolveScheme(scheme);
+  const latin = containsArabicScript(text) ? toULY(text, options) : text;
+  const ulyTable = ULY_LETTERS.map((letter): [string, string] => [letter, letter]);
+  const spellings = new Set(schemeReadingTable(resolved).map(([spelling]) => spelling));
+  const spell = (letter: string) => resolved.letters[letter] ?? letter;
+
+  let result = '';
+  let prev: string | undefined;
+  let i = 0;
+
+  while (i < latin.length) {
+    const entry = matchSpelling(ulyTable, latin, i);
+
+    if (entry) {
+      const [letter] = entry;
+      result += matchCase(latin[i], latin[i + letter.length], spell(letter));
+      prev = letter;
+      i += letter.length;
+      continue;
+    }
+
+    // Drop ULY digraph separators the target scheme does not need
+    const next = latin[i] === "'" ? matchSpelling(ulyTable, latin, i + 1) : undefined;
+    if (prev && next && formsDigraph(prev, next[0])) {
+      const boundary = spell(prev).slice(-1) + spell(next[0])[0];
+      if (!spellings.has(boundary)) {
+        i++;
+        continue;
+      }
+    }
+
+    // An apostrophe after a letter it would modify ('e' + "'" reads as "e'")
+    // or after a modified one is doubled, so it reads back as an apostrophe
+    if (latin[i] === "'" && prev && (spellings.has(spell(prev) + "'") || spell(prev).endsWith("'"))) {
+      result += "''";
+    } else {
+      result += latin[i];
+    }
+    prev = undefined;
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * Convert text in a Latin romanization scheme to Arabic script or ULY
+ *
+ * @param text - The Uyghur text in the given scheme
+ * @param scheme - Scheme name ('uly', 'uyy', 'ascii' or a registered name) or scheme object
+ * @param target - Output script (default: 'arabic')
+ * @param options - Options applied when producing Arabic script
+ * @returns The transliterated text
+ *
+ * @example
+ * ```ts
+ * fromScheme('uyƣurqə', 'uyy') // 'ئۇيغۇرچە'
+ * fromScheme("So'hbet", 'ascii', 'latin') // 'Söhbet'
+ * fromScheme("te''sir", 'ascii', 'latin') // "te'sir"
+ * ```
+ */
+export function fromScheme(
+  text: string,
+  scheme: string | LatinScheme,
+  target: 'latin' | 'arabic' = 'arabic',
+  options?: TransliterateOptions
+): string {
+  if (!text) return '';
+
+  const table = schemeReadingTable(resolveScheme(scheme));
+  let result = '';
+  let prev: string | undefined;
+  let i = 0;
+
+  while (i < text.length) {
+    const entry = matchSpelling(table, text, i);
+
+    if (entry && entry[0].endsWith("'") && text[i + entry[0].length] === "'") {
+      // A doubled apostrophe follows the letter: "e''" is 'e' and "e'''" is
+      // 'é', each followed by an apostrophe
+      const base = entry[0].slice(0, -1);
+      let run = 0;
+      while (text[i + base.length + run] === "'") run++;
+      const plain = table.find(([spelling]) => spelling === base);
+      const [spelling, letter] = run % 2 === 0 && plain ? plain : entry;
+      result += matchCase(text[i], text[i + spelling.length], letter) + "'";
+      prev = undefined;
+      i += spelling.length + 2;
+    } else if (entry) {
+      const [spelling, letter] = entry;
+      if (formsDigraph(prev, letter)) {
+        result += "'";
+      }
+      result += matchCase(text[i], text[i + spelling.length], letter);
+      prev = letter;
+      i += spelling.length;
+    } else {
+      result += text[i];
+      prev = undefined;
+      i++;
+    }
+  }
+
+  return target === 'arabic' ? toArabic(result, options) : result;
+}
+
+/**
+ * Resolve the output script requested by `target` or `direction`
+ * Returns undefined when it should be detected from the input
+ */
+export function resolveTarget(
+  options?: TransliterateOptions
+): 'latin' | 'arabic' | 'cyrillic' | undefined {
+  if (options?.target) return options.target;
+  if (options?.direction === 'toLatin') return 'latin';
+  if (options?.direction === 'toArabic') return 'arabic';
+  return undefined;
+}
+
+/**
+ * Transliterate only the Uyghur spans of mixed content
+ * Pass the same `state` for consecutive pieces of one document (such as the
+ * text nodes of an HTML page) so that `preserveCase` carries sentence starts
+ * across them
+ */
+export function transliterateSpans(
+  text: string,
+  target: 'latin' | 'arabic' | 'cyrillic' | undefined,
+  scheme: string | LatinScheme,
+  options: TransliterateOptions,
+  state: { sentenceStart: boolean } = { sentenceStart: true }
+): string {
+  const spans = segmentText(text, { foreignWords: options.foreignWords });
+  const resolvedTarget = target ?? (spans.some((span) => span.type === 'arabic') ? 'latin' : 'arabic');
+  const spanOptions: TransliterateOptions = { ...options, preserveCase: false, mixedContent: false };
+
+  return spans
+    .map((span) => {
+      let converted = span.text;
+
+      if (span.type === 'arabic' && resolvedTarget !== 'arabic') {
+        converted =
+          resolvedTarget === 'cyrillic'
+            ? toCyrillic(span.text, spanOptions)
+            : toScheme(span.text, scheme, spanOptions);
+        if (options.preserveCase) {
+          converted = capitalizeLatin(converted, options.properNouns, state.sentenceStart);
+        }
+      } else if (span.type === 'uly' && resolvedTarget !== 'latin') {
+        converted =
+          resolvedTarget === 'cyrillic'
+            ? toCyrillic(span.text)
+            : fromScheme(span.text, scheme, 'arabic', spanOptions);
+      }
+
+      if (span.type !== 'whitespace') {
+        state.sentenceStart = span.type === 'punctuation' && /[.!?؟]$/.test(span.text);
+      }
+      return converted;
+    })
+    .join('');
 }
 
 /**
@@ -141,17 +724,42 @@ export interface TransliterateOptions {
  * ```ts
  * transliterate('نوزۇگۇم') // 'nozugum' (Arabic → Latin)
  * transliterate('nozugum') // 'نوزۇگۇم' (Latin → Arabic)
+ * transliterate('нозугум') // 'نوزۇگۇم' (Cyrillic → Arabic)
+ * transliterate('نوزۇگۇم', { target: 'cyrillic' }) // 'нозугум'
+ * transliterate('uyƣurqə', { scheme: 'uyy' }) // 'ئۇيغۇرچە'
+ * transliterate('iPhone سالام', { direction: 'toLatin' }) // 'iPhone salam'
+ * transliterate('كىتاب https://example.com', { mixedContent: true }) // 'kitab https://example.com'
  * ```
  */
-export function transliterate(text: string, _options?: TransliterateOptions): string {
+export function transliterate(text: string, options?: TransliterateOptions): string {
   if (!text) return '';
 
   // Detect if text is primarily Arabic script
   const hasArabic = /[\u0600-\u06ff\u0750-\u077f\ufb50-\ufdff\ufe70-\ufeff]/.test(text);
+  const hasCyrillic = containsCyrillic(text);
+  const scheme = options?.scheme ?? 'uly';
+  const target = resolveTarget(options);
+
+  if (options?.mixedContent) {
+    return transliterateSpans(text, target, scheme, options);
+  }
+
+  switch (target) {
+    case 'cyrillic':
+      return toCyrillic(text, options);
+    case 'latin':
+      if (hasCyrillic) return toScheme(fromCyrillic(text, 'latin'), scheme, options);
+      return toScheme(text, scheme, options);
+    case 'arabic':
+      if (hasCyrillic) return fromCyrillic(text, 'arabic', options);
+      return fromScheme(text, scheme, 'arabic', options);
+  }
 
   if (hasArabic) {
-    return toULY(text);
+    return toScheme(text, scheme, options);
+  } else if (hasCyrillic) {
+    return fromCyrillic(text, 'arabic', options);
   } else {
-    return toArabic(text);
+    return fromScheme(text, scheme, 'arabic', options);
   }
 }
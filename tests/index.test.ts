@@ -1,9 +1,40 @@
 import { describe, it, expect } from 'vitest';
+import { mkdtemp, readFile, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { runCli } from '../src/cli';
 import {
   // Transliteration
   toULY,
   toArabic,
+  toCyrillic,
+  fromCyrillic,
+  toScheme,
+  fromScheme,
+  registerScheme,
+  listSchemes,
   transliterate,
+  // Streaming
+  createULYStream,
+  createArabicStream,
+  createNormalizeStream,
+  streamToULY,
+  // Markup
+  transliterateHtml,
+  transliterateMarkdown,
+  // Segmentation
+  segmentText,
+  isLikelyULY,
+  tokenize,
+  splitSentences,
+  // Hyphenation
+  syllabify,
+  hyphenate,
+  // Punctuation
+  convertPunctuation,
+  // Collation
+  compareUyghur,
+  sortUyghur,
   // Slug
   generateSlug,
   isValidSlug,
@@ -16,10 +47,34 @@ import {
   // Normalization
   normalizeUyghur,
   normalizeForSearch,
+  foldPresentationForms,
+  // Shaping
+  shapeUyghur,
+  // Legacy encodings
+  decodeLegacy,
+  guessLegacyEncoding,
+  registerLegacyEncoding,
+  getLegacyEncoding,
+  listLegacyEncodings,
   // Numbers
   toWesternNumerals,
   toArabicIndicNumerals,
   extractNumbers,
+  extractNumberMatches,
+  formatNumber,
+  parseNumber,
+  toOrdinal,
+  attachSuffixToNumber,
+  numberToWords,
+  wordsToNumber,
+  // Suffixes
+  attachSuffix,
+  // Stemming
+  stemUyghur,
+  // Dates
+  formatUyghurDate,
+  parseUyghurDate,
+  formatRelativeTime,
 } from '../src';
 
 describe('Transliteration', () => {
@@ -50,6 +105,27 @@ describe('Transliteration', () => {
     it('should preserve spaces', () => {
       expect(toULY('سالام دۇنيا')).toBe('salam dunya');
     });
+
+    it('should capitalize sentences and proper nouns with preserveCase', () => {
+      expect(toULY('سالام. رەھمەت!', { preserveCase: true })).toBe('Salam. Rehmet!');
+      expect(
+        toULY('مەن ئۈرۈمچىدە تۇرىمەن', { preserveCase: true, properNouns: ['ئۈرۈمچى'] })
+      ).toBe('Men Ürümchide turimen');
+      expect(toULY('ئالى ئالىنىڭ ئالىم', { preserveCase: true, properNouns: ['ئالى'] })).toBe('Ali Alining alim');
+      expect(toULY('ئانا ئاناس', { preserveCase: true, properNouns: ['ana'] })).toBe('Ana anas');
+      expect(toULY('سالام. رەھمەت')).toBe('salam. rehmet');
+    });
+
+    it('should convert Arabic punctuation', () => {
+      expect(toULY('«سالام»، دۇنيا؟')).toBe('"salam", dunya?');
+      expect(toULY('٣٫٥٪')).toBe('3.5%');
+      expect(toULY('سالام، دۇنيا؟', { punctuation: false })).toBe('salam، dunya؟');
+    });
+
+    it('should pass through unmapped characters with includeUnmapped', () => {
+      expect(toULY('سالام 😊 你好', { includeUnmapped: true })).toBe('salam 😊 你好');
+      expect(toULY('سالام 😊 你好')).toBe('salam');
+    });
   });
 
   describe('toArabic (Latin to Arabic)', () => {
@@ -67,6 +143,161 @@ describe('Transliteration', () => {
       expect(toArabic('SALAM')).toBe('سالام');
       expect(toArabic('Salam')).toBe('سالام');
     });
+
+    it('should insert hamza before word-initial vowels', () => {
+      expect(toArabic('uyghurche')).toBe('ئۇيغۇرچە');
+      expect(toArabic('öy')).toBe('ئۆي');
+      expect(toArabic('uyghur eli')).toBe('ئۇيغۇر ئەلى');
+      expect(toArabic('5-ayda')).toBe('5-ئايدا');
+    });
+
+    it('should insert hamza between vowels and after apostrophes', () => {
+      expect(toArabic('sual')).toBe('سۇئال');
+      expect(toArabic('tebiiy')).toBe('تەبىئىي');
+      expect(toArabic("mes'ul")).toBe('مەسئۇل');
+    });
+
+    it('should pass through unmapped characters with includeUnmapped', () => {
+      expect(toArabic('salam @Ali 😊', { includeUnmapped: true })).toBe('سالام @ئالى 😊');
+      expect(toArabic('salam @Ali')).toBe('سالام ئالى');
+      expect(toArabic('Coca', { includeUnmapped: true })).toBe('Cوcا');
+    });
+
+    it('should convert Latin punctuation', () => {
+      expect(toArabic('"salam", dunya?')).toBe('«سالام»، دۇنيا؟');
+      expect(toArabic('3.5% 1,250')).toBe('3.5٪ 1,250');
+      expect(toArabic('salam, dunya?', { punctuation: false })).toBe('سالام, دۇنيا?');
+    });
+
+    it('should keep text already in Arabic script', () => {
+      expect(toArabic('salam دۇنيا')).toBe('سالام دۇنيا');
+    });
+
+    it('should keep quoting apostrophes', () => {
+      expect(toArabic("'salam'")).toBe("'سالام'");
+    });
+
+    it('should round-trip hamza through toULY', () => {
+      expect(toULY('مەسئۇل')).toBe("mes'ul");
+      expect(toULY(toArabic('sual'))).toBe('sual');
+      expect(toULY('مۆئمىن')).toBe("mö'min");
+      expect(toArabic("mö'min")).toBe('مۆئمىن');
+      for (const word of ['مۆئمىن', 'جۈرئەت', 'سۇئال', 'تەبىئىي']) {
+        expect(toArabic(toULY(word))).toBe(word);
+      }
+    });
+
+    it('should compose decomposed letters', () => {
+      expect(toArabic('o\u0308y')).toBe('ئۆي');
+      expect(toArabic('u\u0308ru\u0308mchi')).toBe('ئۈرۈمچى');
+      expect(toArabic('te\u0301ma')).toBe(toArabic('téma'));
+    });
+
+    it('should split digraphs at apostrophes', () => {
+      expect(toArabic("men'gü")).toBe('مەنگۈ');
+      expect(toArabic('mengü')).toBe('مەڭۈ');
+      expect(toArabic("is'haq")).toBe('ئىسھاق');
+      expect(toArabic("n'gh")).toBe('نغ');
+    });
+
+    it('should round-trip digraph boundaries', () => {
+      for (const word of ['مەنگۈ', 'ئىسھاق', 'ئىزھار', 'ڭھ', 'نغ', 'مەسئۇل']) {
+        expect(toArabic(toULY(word))).toBe(word);
+      }
+      expect(toULY('مەنگۈ')).toBe("men'gü");
+      expect(toULY('ئىسھاق')).toBe("is'haq");
+    });
+  });
+
+  describe('toCyrillic / fromCyrillic (UKY)', () => {
+    it('should convert Arabic script to Cyrillic', () => {
+      expect(toCyrillic('ئۇيغۇرچە')).toBe('уйғурчә');
+      expect(toCyrillic('نوزۇگۇم')).toBe('нозугум');
+      expect(toCyrillic('يۇرت')).toBe('юрт');
+    });
+
+    it('should convert ULY to Cyrillic preserving case', () => {
+      expect(toCyrillic('Uyghur')).toBe('Уйғур');
+      expect(toCyrillic('UYGHUR')).toBe('УЙҒУР');
+      expect(toCyrillic('yash')).toBe('яш');
+      expect(toCyrillic("men'gü")).toBe('мәнгү');
+      expect(toCyrillic('jenub')).toBe('җәнуб');
+    });
+
+    it('should convert Cyrillic to Arabic script', () => {
+      expect(fromCyrillic('уйғурчә')).toBe('ئۇيغۇرچە');
+      expect(fromCyrillic('суал')).toBe('سۇئال');
+      expect(fromCyrillic('мәнгү')).toBe('مەنگۈ');
+      expect(fromCyrillic('мәңгү')).toBe('مەڭگۈ');
+    });
+
+    it('should convert Cyrillic to ULY', () => {
+      expect(fromCyrillic('Уйғур', 'latin')).toBe('Uyghur');
+      expect(fromCyrillic('мәнгү', 'latin')).toBe("men'gü");
+      expect(fromCyrillic('ёл', 'latin')).toBe('yol');
+      expect(fromCyrillic('Һөкүмәт', 'latin')).toBe('Hökümet');
+    });
+
+    it('should handle empty input', () => {
+      expect(toCyrillic('')).toBe('');
+      expect(fromCyrillic('')).toBe('');
+    });
+  });
+
+  describe('Latin schemes (UYY, ASCII)', () => {
+    it('should list built-in schemes', () => {
+      expect(listSchemes()).toEqual(expect.arrayContaining(['uly', 'uyy', 'ascii']));
+    });
+
+    it('should convert to Yéngi Yéziq', () => {
+      expect(toScheme('ئۇيغۇرچە', 'uyy')).toBe('uyƣurqə');
+      expect(toScheme('Söhbet', 'uyy')).toBe('Sɵⱨbət');
+      expect(toScheme("men'gü", 'uyy')).toBe('məngü');
+      expect(toScheme('ژۇرنال', 'uyy')).toBe('ⱬurnal');
+    });
+
+    it('should read Yéngi Yéziq', () => {
+      expect(fromScheme('uyƣurqə', 'uyy')).toBe('ئۇيغۇرچە');
+      expect(fromScheme('məngü', 'uyy', 'latin')).toBe("men'gü");
+      expect(fromScheme('məŋgü', 'uyy')).toBe('مەڭگۈ');
+      expect(fromScheme('xəⱨər', 'uyy', 'latin')).toBe('sheher');
+    });
+
+    it('should convert to and from ASCII-only ULY', () => {
+      expect(toScheme('Söhbet', 'ascii')).toBe("So'hbet");
+      expect(toScheme('مەنگۈ', 'ascii')).toBe("men'gu'");
+      expect(fromScheme("So'hbet", 'ascii', 'latin')).toBe('Söhbet');
+      expect(fromScheme("ku'chlu'k", 'ascii')).toBe('كۈچلۈك');
+    });
+
+    it('should double apostrophes after o, u and e in ASCII-only ULY', () => {
+      expect(toScheme('تەئسىر', 'ascii')).toBe("te''sir");
+      expect(toScheme('مۆئمىن', 'ascii')).toBe("mo'''min");
+      expect(toScheme("mu'ellim", 'ascii')).toBe("mu''ellim");
+      expect(fromScheme("te''sir", 'ascii', 'latin')).toBe("te'sir");
+      expect(fromScheme("mo'''min", 'ascii', 'latin')).toBe("mö'min");
+      for (const word of ["mu'ellim", "su'al", "te'sir", "me'lum", "Mö'min"]) {
+        expect(fromScheme(toScheme(word, 'ascii'), 'ascii', 'latin')).toBe(word);
+      }
+    });
+
+    it('should round-trip through every scheme', () => {
+      for (const scheme of ['uly', 'uyy', 'ascii']) {
+        for (const word of ['مەنگۈ', 'مەڭگۈ', 'ئىسھاق', 'نغ', 'مەسئۇل', 'شەھەر', 'تەئسىر', 'مەئلۇم', 'مۆئمىن', 'مۇئەللىم']) {
+          expect(fromScheme(toScheme(word, scheme), scheme)).toBe(word);
+        }
+      }
+    });
+
+    it('should accept custom schemes', () => {
+      registerScheme({ name: 'test', letters: { ch: 'c', sh: 'x' } });
+      expect(toScheme('چاي', 'test')).toBe('cay');
+      expect(fromScheme('cay', 'test')).toBe('چاي');
+    });
+
+    it('should reject unknown schemes', () => {
+      expect(() => toScheme('salam', 'nope')).toThrow('Unknown transliteration scheme');
+    });
   });
 
   describe('transliterate (auto-detect)', () => {
@@ -77,6 +308,432 @@ describe('Transliteration', () => {
     it('should convert Latin to Arabic', () => {
       expect(transliterate('salam')).toBe('سالام');
     });
+
+    it('should convert Cyrillic to Arabic', () => {
+      expect(transliterate('салам')).toBe('سالام');
+    });
+
+    it('should respect an explicit target', () => {
+      expect(transliterate('نوزۇگۇم', { target: 'cyrillic' })).toBe('нозугум');
+      expect(transliterate('салам', { target: 'latin' })).toBe('salam');
+      expect(transliterate('salam', { target: 'latin' })).toBe('salam');
+      expect(transliterate('سالام', { target: 'arabic' })).toBe('سالام');
+    });
+
+    it('should respect an explicit direction', () => {
+      expect(transliterate('iPhone سالام', { direction: 'toLatin' })).toBe('iPhone salam');
+      expect(transliterate('salam دۇنيا', { direction: 'toArabic' })).toBe('سالام دۇنيا');
+      expect(transliterate('سالام', { direction: 'auto' })).toBe('salam');
+    });
+
+    it('should forward options to the converters', () => {
+      expect(transliterate('سالام. رەھمەت', { preserveCase: true })).toBe('Salam. Rehmet');
+      expect(transliterate('salam 😊', { includeUnmapped: true })).toBe('سالام 😊');
+    });
+
+    it('should convert only Uyghur spans in mixedContent mode', () => {
+      const text = 'سالام @Ali! `code()` https://example.com/a?b=1. a.b@mail.com 3.5 你好 😊 iPhone';
+      expect(transliterate(text, { mixedContent: true })).toBe(
+        'salam @Ali! `code()` https://example.com/a?b=1. a.b@mail.com 3.5 你好 😊 iPhone'
+      );
+      expect(transliterate('Men kitab oqudum, see iPhone', { mixedContent: true, foreignWords: ['see'] })).toBe(
+        'مەن كىتاب ئوقۇدۇم, see iPhone'
+      );
+      expect(transliterate('سالام. كىتاب iPhone', { mixedContent: true, preserveCase: true })).toBe(
+        'Salam. Kitab iPhone'
+      );
+    });
+
+    it('should leave English sentences and product names unchanged', () => {
+      const english = ['Hello, welcome to our home page', 'Check the new update on our website today.'];
+      for (const text of english) {
+        expect(transliterate(text, { mixedContent: true })).toBe(text);
+      }
+      for (const name of ['Windows', 'Linux', 'Google']) {
+        expect(transliterate(name, { mixedContent: true })).toBe(name);
+      }
+      expect(transliterate('Men Windows ishlitimen, Linux emes.', { mixedContent: true })).toBe(
+        'مەن Windows ئىشلىتىمەن, Linux ئەمەس.'
+      );
+    });
+
+    it('should use the requested Latin scheme', () => {
+      expect(transliterate('uyƣurqə', { scheme: 'uyy' })).toBe('ئۇيغۇرچە');
+      expect(transliterate('ئۇيغۇرچە', { scheme: 'uyy' })).toBe('uyƣurqə');
+    });
+  });
+});
+
+describe('Streaming', () => {
+  const splitEvery = (text: string, size: number): string[] => {
+    const chunks: string[] = [];
+    for (let i = 0; i < text.length; i += size) chunks.push(text.slice(i, i + size));
+    return chunks;
+  };
+
+  const runStream = async (stream: TransformStream<string, string>, chunks: string[]): Promise<string> => {
+    const source = new ReadableStream<string>({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(chunk));
+        controller.close();
+      },
+    });
+    let output = '';
+    for await (const chunk of source.pipeThrough(stream)) {
+      output += chunk;
+    }
+    return output;
+  };
+
+  const arabic = '  «ئۇيغۇرچە» مەنگۈ، مەسئۇل سۇئال 😊 ڭھ.\n\n رەھمەت؟ ٣٫٥٪  ';
+
+  const latin = "  \"uyghurche\" men'gü, mes'ul sual 😊 ng'h.\n\n rehmet? 3.5%   ";
+
+  describe('createULYStream', () => {
+    it('should match toULY for any chunk size', async () => {
+      for (const size of [1, 2, 3, 7, 100]) {
+        expect(await runStream(createULYStream(), splitEvery(arabic, size))).toBe(toULY(arabic));
+        expect(await runStream(createULYStream({ preserveCase: true }), splitEvery(arabic, size))).toBe(
+          toULY(arabic, { preserveCase: true })
+        );
+      }
+    });
+
+    it('should capitalize proper nouns of several words like toULY', async () => {
+      const text = 'مەن ئۈرۈمچى شەھىرىدە تۇرىمەن. ئۈرۈمچى  شەھىرى چوڭ، ئۈرۈمچى ناھىيىسى ئەمەس';
+      const options = { preserveCase: true, properNouns: ['ئۈرۈمچى شەھىرى', 'ئۈرۈمچى'] };
+      for (const size of [1, 2, 3, 7, 100]) {
+        expect(await runStream(createULYStream(options), splitEvery(text, size))).toBe(toULY(text, options));
+      }
+      expect(toULY(text, options)).toContain('Ürümchi Shehiri chong');
+    });
+  });
+
+  describe('createArabicStream', () => {
+    it('should match toArabic for any chunk size', async () => {
+      for (const size of [1, 2, 3, 7, 100]) {
+        expect(await runStream(createArabicStream(), splitEvery(latin, size))).toBe(toArabic(latin));
+      }
+    });
+  });
+
+  describe('createNormalizeStream', () => {
+    it('should match normalizeUyghur for any chunk size', async () => {
+      const text = ' \ufeffسالام\u200c  أ\r\n دۇنيا ';
+      for (const size of [1, 2, 5]) {
+        expect(await runStream(createNormalizeStream(), splitEvery(text, size))).toBe(normalizeUyghur(text));
+      }
+    });
+  });
+
+  describe('streamToULY', () => {
+    it('should decode UTF-8 byte chunks split inside characters', async () => {
+      const bytes = new TextEncoder().encode(arabic);
+      const chunks: Uint8Array[] = [];
+      for (let i = 0; i < bytes.length; i += 3) chunks.push(bytes.slice(i, i + 3));
+
+      let output = '';
+      for await (const chunk of streamToULY(chunks)) output += chunk;
+      expect(output).toBe(toULY(arabic));
+    });
+  });
+});
+
+describe('Markup Transliteration', () => {
+  describe('transliterateHtml', () => {
+    it('should convert text nodes only', () => {
+      expect(transliterateHtml('<p class="lead" title="a>b">سالام  &amp; دۇنيا</p>')).toBe(
+        '<p class="lead" title="a>b">salam  &amp; dunya</p>'
+      );
+      expect(transliterateHtml('<p>kitab, <b>söhbet</b></p>')).toBe('<p>كىتاب, <b>سۆھبەت</b></p>');
+    });
+
+    it('should keep code, scripts, styles and comments intact', () => {
+      const html = '<pre><code>كىتاب</code></pre><script>x = "سالام"</script><style>p>a{}</style><!-- سالام -->';
+      expect(transliterateHtml(html)).toBe(html);
+    });
+
+    it('should keep link URLs intact', () => {
+      expect(transliterateHtml('<a href="https://x.com/ئا">ئۇلانما</a>')).toBe(
+        '<a href="https://x.com/ئا">ulanma</a>'
+      );
+    });
+
+    it('should update dir and lang attributes when requested', () => {
+      const html = '<html dir="rtl" lang="ug-Arab"><p>سالام</p><div lang="en" dir="ltr">Hi</div></html>';
+      expect(transliterateHtml(html, { updateAttributes: true })).toBe(
+        '<html dir="ltr" lang="ug-Latn"><p>salam</p><div lang="en" dir="ltr">Hi</div></html>'
+      );
+      expect(transliterateHtml('<p dir="ltr" lang="ug-Latn">salam</p>', { updateAttributes: true })).toBe(
+        '<p dir="rtl" lang="ug-Arab">سالام</p>'
+      );
+      expect(transliterateHtml(html)).toBe(
+        '<html dir="rtl" lang="ug-Arab"><p>salam</p><div lang="en" dir="ltr">Hi</div></html>'
+      );
+    });
+
+    it('should detect the target from the lang attribute of a document without text', () => {
+      expect(transliterateHtml('<html dir="rtl" lang="ug-Arab">', { updateAttributes: true })).toBe(
+        '<html dir="ltr" lang="ug-Latn">'
+      );
+      expect(transliterateHtml('<html dir="ltr" lang="ug-Latn">', { updateAttributes: true })).toBe(
+        '<html dir="rtl" lang="ug-Arab">'
+      );
+    });
+
+    it('should carry sentence starts across text nodes with preserveCase', () => {
+      expect(transliterateHtml('<p>سالام <b>دۇنيا</b> ياخشى</p>', { preserveCase: true })).toBe(
+        '<p>Salam <b>dunya</b> yaxshi</p>'
+      );
+      expect(transliterateHtml('<h1>سالام</h1><p>دۇنيا. <i>ياخشى</i></p>', { preserveCase: true })).toBe(
+        '<h1>Salam</h1><p>Dunya. <i>Yaxshi</i></p>'
+      );
+    });
+  });
+
+  describe('transliterateMarkdown', () => {
+    it('should convert prose and keep markup intact', () => {
+      expect(transliterateMarkdown('# سالام\n\n- دۇنيا *كىتاب*\n')).toBe('# salam\n\n- dunya *kitab*\n');
+      expect(transliterateMarkdown('[ئۇلانما](https://example.com/a "t") `كود` <br> [^1]')).toBe(
+        '[ulanma](https://example.com/a "t") `كود` <br> [^1]'
+      );
+    });
+
+    it('should keep front matter, code blocks and reference definitions intact', () => {
+      const markdown = '---\ntitle: سالام\n---\nسالام\n\n```js\nconst a = "سالام";\n```\n\n[id]: https://x.com/ئا\n';
+      expect(transliterateMarkdown(markdown)).toBe(
+        '---\ntitle: سالام\n---\nsalam\n\n```js\nconst a = "سالام";\n```\n\n[id]: https://x.com/ئا\n'
+      );
+    });
+
+    it('should keep indented code blocks intact', () => {
+      const markdown = 'سالام\n\n    const a = "سالام";\n\n\tكىتاب()\n\nكىتاب\n    ئالما\n\n- بالا\n\n    ئالما\n';
+      expect(transliterateMarkdown(markdown)).toBe(
+        'salam\n\n    const a = "سالام";\n\n\tكىتاب()\n\nkitab\n    alma\n\n- bala\n\n    alma\n'
+      );
+    });
+
+    it('should handle empty input', () => {
+      expect(transliterateMarkdown('')).toBe('');
+      expect(transliterateHtml('')).toBe('');
+    });
+  });
+});
+
+describe('Text Segmentation', () => {
+  describe('segmentText', () => {
+    it('should split text into typed spans', () => {
+      const text = 'سالام @Ali `x` https://example.com. a@b.com ٣٫٥ 你好 product';
+      expect(segmentText(text).map((span) => [span.type, span.text])).toEqual([
+        ['arabic', 'سالام'],
+        ['whitespace', ' '],
+        ['mention', '@Ali'],
+        ['whitespace', ' '],
+        ['code', '`x`'],
+        ['whitespace', ' '],
+        ['url', 'https://example.com'],
+        ['punctuation', '.'],
+        ['whitespace', ' '],
+        ['email', 'a@b.com'],
+        ['whitespace', ' '],
+        ['number', '٣٫٥'],
+        ['whitespace', ' '],
+        ['cjk', '你好'],
+        ['whitespace', ' '],
+        ['latin', 'product'],
+      ]);
+    });
+
+    it('should report source offsets', () => {
+      const text = 'kitab 😊😊 Привет';
+      const spans = segmentText(text);
+      expect(spans.map((span) => span.type)).toEqual(['uly', 'whitespace', 'other', 'whitespace', 'cyrillic']);
+      for (const span of spans) {
+        expect(text.slice(span.start, span.end)).toBe(span.text);
+      }
+    });
+
+    it('should honour foreignWords', () => {
+      expect(segmentText('salam', { foreignWords: ['Salam'] })[0].type).toBe('latin');
+    });
+
+    it('should handle empty input', () => {
+      expect(segmentText('')).toEqual([]);
+    });
+  });
+
+  describe('tokenize', () => {
+    it('should split text into typed tokens', () => {
+      expect(tokenize('5-ئاي، سالام!')).toEqual([
+        { type: 'number', text: '5-ئاي', start: 0, end: 5 },
+        { type: 'punctuation', text: '،', start: 5, end: 6 },
+        { type: 'whitespace', text: ' ', start: 6, end: 7 },
+        { type: 'word', text: 'سالام', start: 7, end: 12, script: 'arabic' },
+        { type: 'punctuation', text: '!', start: 12, end: 13 },
+      ]);
+    });
+
+    it('should keep apostrophes, hyphens and number suffixes inside tokens', () => {
+      const text = "sa'et ئۆز-ئۆزىنى 2024-yili 1,250.5 https://example.com؟ a@b.com";
+      expect(tokenize(text).filter((token) => token.type !== 'whitespace').map((t) => [t.type, t.text])).toEqual([
+        ['word', "sa'et"],
+        ['word', 'ئۆز-ئۆزىنى'],
+        ['number', '2024-yili'],
+        ['number', '1,250.5'],
+        ['url', 'https://example.com'],
+        ['punctuation', '؟'],
+        ['email', 'a@b.com'],
+      ]);
+    });
+
+    it('should separate scripts and report offsets', () => {
+      const text = 'iPhoneنى яхши 中文 😀👍...؟؟';
+      const tokens = tokenize(text);
+      expect(tokens.map((token) => [token.type, token.script])).toEqual([
+        ['word', 'latin'],
+        ['word', 'arabic'],
+        ['whitespace', undefined],
+        ['word', 'cyrillic'],
+        ['whitespace', undefined],
+        ['word', 'other'],
+        ['whitespace', undefined],
+        ['symbol', undefined],
+        ['punctuation', undefined],
+        ['punctuation', undefined],
+      ]);
+      for (const token of tokens) {
+        expect(text.slice(token.start, token.end)).toBe(token.text);
+      }
+      expect(tokenize('')).toEqual([]);
+    });
+  });
+
+  describe('splitSentences', () => {
+    it('should split at Arabic and Latin terminators', () => {
+      const text = 'سالام! قانداق ئەھۋالىڭىز؟ Dr. Smith keldi. ئۇ كەتتى۔ Boldi…';
+      expect(splitSentences(text).map((sentence) => sentence.text)).toEqual([
+        'سالام!',
+        'قانداق ئەھۋالىڭىز؟',
+        'Dr. Smith keldi.',
+        'ئۇ كەتتى۔',
+        'Boldi…',
+      ]);
+    });
+
+    it('should not split after abbreviations, initials or decimals', () => {
+      expect(splitSentences('م. ئابدۇللا 3.5 سائەت ساقلىدى. U.S. Army e.g. here.').map((s) => s.text)).toEqual([
+        'م. ئابدۇللا 3.5 سائەت ساقلىدى.',
+        'U.S. Army e.g. here.',
+      ]);
+      expect(splitSentences('Mil. Tarix', { abbreviations: ['Mil'] })).toHaveLength(1);
+    });
+
+    it('should split at blank lines and report offsets', () => {
+      const text = '  Birinchi\n\nIkkinchi.  ';
+      expect(splitSentences(text)).toEqual([
+        { text: 'Birinchi', start: 2, end: 10 },
+        { text: 'Ikkinchi.', start: 12, end: 21 },
+      ]);
+      expect(splitSentences('')).toEqual([]);
+    });
+  });
+
+  describe('isLikelyULY', () => {
+    it('should recognise ULY words', () => {
+      expect(isLikelyULY('kitab')).toBe(true);
+      expect(isLikelyULY('söhbet')).toBe(true);
+      expect(isLikelyULY("mes'ul")).toBe(true);
+      expect(isLikelyULY('Uyghur')).toBe(true);
+    });
+
+    it('should reject foreign words', () => {
+      expect(isLikelyULY('product')).toBe(false);
+      expect(isLikelyULY('iPhone')).toBe(false);
+      expect(isLikelyULY('CMS')).toBe(false);
+      expect(isLikelyULY('cloud')).toBe(false);
+      expect(isLikelyULY('world')).toBe(false);
+      expect(isLikelyULY('home')).toBe(false);
+      expect(isLikelyULY('Google')).toBe(false);
+      expect(isLikelyULY('Windows')).toBe(false);
+      expect(isLikelyULY('Linux')).toBe(false);
+      expect(isLikelyULY('uyghurche')).toBe(true);
+      expect(isLikelyULY('yaxshi')).toBe(true);
+    });
+  });
+});
+
+describe('Hyphenation', () => {
+  describe('syllabify', () => {
+    it('should split Arabic-script words into syllables', () => {
+      expect(syllabify('ئۇيغۇرچە')).toEqual(['ئۇي', 'غۇر', 'چە']);
+      expect(syllabify('كىتاب')).toEqual(['كى', 'تاب']);
+      expect(syllabify('مەكتەپ')).toEqual(['مەك', 'تەپ']);
+      expect(syllabify('تۈركچە')).toEqual(['تۈرك', 'چە']);
+      expect(syllabify('سائەت')).toEqual(['سا', 'ئەت']);
+      expect(syllabify('ئوقۇغۇچىلار')).toEqual(['ئو', 'قۇ', 'غۇ', 'چى', 'لار']);
+    });
+
+    it('should split ULY words, keeping digraphs together', () => {
+      expect(syllabify('mektep')).toEqual(['mek', 'tep']);
+      expect(syllabify('Uyghurche')).toEqual(['Uy', 'ghur', 'che']);
+      expect(syllabify('ürümchi')).toEqual(['ü', 'rüm', 'chi']);
+      expect(syllabify('mingi')).toEqual(['mi', 'ngi']);
+      expect(syllabify("sa'et")).toEqual(['sa', "'et"]);
+    });
+
+    it('should keep words with one vowel whole', () => {
+      expect(syllabify('خەلق')).toEqual(['خەلق']);
+      expect(syllabify('ming')).toEqual(['ming']);
+      expect(syllabify('')).toEqual([]);
+    });
+  });
+
+  describe('hyphenate', () => {
+    it('should insert soft hyphens between syllables', () => {
+      expect(hyphenate('ئوقۇغۇچىلارنىڭ كىتاب')).toBe('ئو\u00adقۇ\u00adغۇ\u00adچى\u00adلار\u00adنىڭ كىتاب');
+      expect(hyphenate('ئۇيغۇرچە كىتاب', { hyphen: '-' })).toBe('ئۇي-غۇر-چە كىتاب');
+    });
+
+    it('should leave short words and fragments whole', () => {
+      expect(hyphenate('مەكتەپ', { minWordLength: 8, hyphen: '-' })).toBe('مەكتەپ');
+      expect(hyphenate('ürümchige', { hyphen: '-' })).toBe('ürüm-chi-ge');
+    });
+
+    it('should only hyphenate Uyghur words', () => {
+      expect(hyphenate('Uyghurche iPhone products 12345', { hyphen: '-' })).toBe('Uy-ghur-che iPhone products 12345');
+      expect(hyphenate('https://example.com/uyghurche', { hyphen: '-' })).toBe('https://example.com/uyghurche');
+      expect(hyphenate('ئۆز-ئۆزىنى', { hyphen: '|' })).toBe('ئۆز-ئۆ|زى|نى');
+    });
+
+    it('should replace existing soft hyphens', () => {
+      const once = hyphenate('ئوقۇغۇچىلارنىڭ');
+      expect(hyphenate(once)).toBe(once);
+      expect(hyphenate('')).toBe('');
+    });
+  });
+});
+
+describe('Punctuation Conversion', () => {
+  describe('convertPunctuation', () => {
+    it('should convert to Latin punctuation', () => {
+      expect(convertPunctuation('سالام، دۇنيا؟', 'latin')).toBe('سالام, دۇنيا?');
+      expect(convertPunctuation('«كىتاب»؛', 'latin')).toBe('"كىتاب";');
+      expect(convertPunctuation('٣٫٥٪ ١٬٢٥٠', 'latin')).toBe('٣.٥% ١,٢٥٠');
+    });
+
+    it('should convert to Arabic punctuation', () => {
+      expect(convertPunctuation('"salam", dunya?', 'arabic')).toBe('«salam»، dunya؟');
+      expect(convertPunctuation('“a” (b "c")', 'arabic')).toBe('«a» (b «c»)');
+      expect(convertPunctuation('٣.٥% ١,٢٥٠', 'arabic')).toBe('٣٫٥٪ ١٬٢٥٠');
+    });
+
+    it('should keep separators between Western digits', () => {
+      expect(convertPunctuation('3.5, 1,250', 'arabic')).toBe('3.5، 1,250');
+    });
+
+    it('should handle empty input', () => {
+      expect(convertPunctuation('', 'latin')).toBe('');
+    });
   });
 });
 
@@ -180,6 +837,19 @@ describe('Text Normalization', () => {
     it('should remove zero-width characters', () => {
       expect(normalizeUyghur('سالام\u200c')).toBe('سالام');
     });
+
+    it('should fold presentation forms into base letters', () => {
+      expect(normalizeUyghur('ﺳﺎﻻﻡ')).toBe('سالام');
+      expect(normalizeUyghur('ﯪﻟﻤﺎ ﻛﯩﺘﺎﺏ')).toBe('ئالما كىتاب');
+      expect(foldPresentationForms('ﺋﯘﻳﻐﯘﺭﭼﻪ')).toBe('ئۇيغۇرچە');
+      expect(foldPresentationForms('\ufe70')).toBe('\u064b');
+    });
+
+    it('should fold presentation forms before transliteration and search', () => {
+      expect(toULY('ﺳﺎﻻﻡ ﺩﯗﻧﻴﺎ')).toBe('salam dunya');
+      expect(transliterate('ﺋﯘﻳﻐﯘﺭﭼﻪ')).toBe('uyghurche');
+      expect(normalizeForSearch('ﺋﯘﻳﻐﯘﺭﭼﻪ')).toBe('ۇيغۇرچە');
+    });
   });
 
   describe('normalizeForSearch', () => {
@@ -190,7 +860,148 @@ describe('Text Normalization', () => {
   });
 });
 
-describe('Number Conversion', () => {
+describe('Collation', () => {
+  describe('sortUyghur', () => {
+    it('should follow the official Arabic-script letter order', () => {
+      expect(sortUyghur(['بال', 'ئەت', 'ئات', 'ياق', 'گۈل', 'ڭ', 'قار', 'ھەر', 'ۋاقىت', 'ئىت'])).toEqual([
+        'ئات', 'ئەت', 'بال', 'قار', 'ڭ', 'گۈل', 'ھەر', 'ۋاقىت', 'ئىت', 'ياق',
+      ]);
+    });
+
+    it('should treat ULY digraphs as single letters', () => {
+      expect(sortUyghur(['daka', 'chay', 'zhurnal', 'zal', 'sheher', 'salam', 'ngalay', 'nan'])).toEqual([
+        'chay', 'daka', 'zal', 'zhurnal', 'salam', 'sheher', 'ngalay', 'nan',
+      ]);
+      expect(compareUyghur("n'gal", 'ngal')).toBeGreaterThan(0); // n + g, and ng sorts before n
+    });
+
+    it('should sort mixed-script lists consistently', () => {
+      expect(sortUyghur(['салам', 'Salam', 'بال', 'salam', 'سالام'])).toEqual(['بال', 'سالام', 'salam', 'Salam', 'салам']);
+    });
+
+    it('should sort objects by key', () => {
+      const items = [{ name: 'بال' }, { name: 'ئات' }];
+      expect(sortUyghur(items, (item) => item.name)).toEqual([{ name: 'ئات' }, { name: 'بال' }]);
+      expect(items[0].name).toBe('بال');
+    });
+  });
+
+  describe('compareUyghur', () => {
+    it('should ignore hamza, apostrophes and diacritics at primary strength', () => {
+      expect(compareUyghur('ئالما', 'الما', { strength: 'primary' })).toBe(0);
+      expect(compareUyghur("mes'ul", 'مەسئۇل', { strength: 'secondary' })).toBe(0);
+      expect(compareUyghur('ئالما', 'الما')).not.toBe(0);
+    });
+  });
+});
+
+describe('Contextual Shaping', () => {
+  describe('shapeUyghur', () => {
+    it('should use contextual forms and lam-alef ligatures', () => {
+      expect(shapeUyghur('سالام')).toBe('\ufeb3\ufe8e\ufefb\ufee1');
+      expect(shapeUyghur('كىتابلار')).toBe('\ufedb\ufbe9\ufe98\ufe8e\ufe91\ufefc\ufead');
+    });
+
+    it('should respect non-joining letters and joiners', () => {
+      expect(shapeUyghur('نوزۇگۇم')).toBe('\ufee7\ufeee\ufeaf\ufbd7\ufb94\ufbd8\ufee1');
+      expect(shapeUyghur('بـب')).toBe('\ufe91\u0640\ufe90');
+      expect(shapeUyghur('ب\u200cب')).toBe('\ufe8f\u200c\ufe8f');
+    });
+
+    it('should be the inverse of presentation form folding', () => {
+      for (const word of ['ئۇيغۇرچە', 'مەكتەپ', 'ئەللىك', 'ئالما', 'سالام دۇنيا']) {
+        expect(foldPresentationForms(shapeUyghur(word))).toBe(word);
+      }
+    });
+
+    it('should reorder lines into visual order', () => {
+      expect(shapeUyghur('سالام 2024 (دۇنيا)', { visualOrder: true })).toBe(
+        '(\ufe8e\ufef4\ufee7\ufbd7\ufea9) 2024 \ufee1\ufefb\ufe8e\ufeb3'
+      );
+      expect(shapeUyghur('hi سالام world', { visualOrder: true })).toBe('hi \ufee1\ufefb\ufe8e\ufeb3 world');
+    });
+  });
+});
+
+describe('Legacy Encodings', () => {
+  describe('decodeLegacy', () => {
+    it('should decode Windows-1256 text read as Latin-1', () => {
+      expect(decodeLegacy('ÓáÇã ÏäíÇ', 'windows-1256')).toBe('سلام دنيا');
+    });
+
+    it('should not invent Uyghur-only letters for Windows-1256', () => {
+      const letters = Object.values(getLegacyEncoding('windows-1256')!.table);
+      for (const letter of ['ۇ', 'ۆ', 'ۈ', 'ې', 'ۋ', 'ە', 'ڭ']) {
+        expect(letters).not.toContain(letter);
+      }
+    });
+
+    it('should decode presentation forms in logical and visual order', () => {
+      expect(decodeLegacy('\ufeb3\ufe8e\ufefb\ufee1', 'presentation-forms')).toBe('سالام');
+      expect(decodeLegacy('\ufee1\ufefb\ufe8e\ufeb3', 'presentation-forms-visual')).toBe('سالام');
+      expect(decodeLegacy('a\n\ufeb3\ufe8e\ufefb\ufee1', 'presentation-forms')).toBe('a\nسالام');
+    });
+
+    it('should decode glyph-encoded text from legacy Uyghur fonts', () => {
+      // Uyghur-only letters as their own glyphs (ﯘ ﯚ ﯜ ﯞ ﯧ ﯕ ﯨ) and ە as heh glyphs (ﻩ ﻪ)
+      const text =
+        '\ufe8b\ufbd8\ufef3\ufed0\ufbd8\ufead \ufedb\ufbda\ufbd5\ufbdc\ufedd ' +
+        '\ufbde\ufee9\ufe97\ufeea\ufee5 \ufe91\ufbe7\ufeae\ufbe8\ufeb6';
+      expect(decodeLegacy(text, 'presentation-forms')).toBe('ئۇيغۇر كۆڭۈل ۋەتەن بېرىش');
+      expect(guessLegacyEncoding(text)).toBe('presentation-forms');
+      expect(decodeLegacy(Array.from(text).reverse().join(''))).toBe('ئۇيغۇر كۆڭۈل ۋەتەن بېرىش');
+    });
+  });
+
+  describe('guessLegacyEncoding', () => {
+    it('should guess the encoding', () => {
+      const text = 'مەن ئۇيغۇر تىلىنى ئۆگىنىۋاتىمەن';
+      expect(guessLegacyEncoding('ÓáÇã ÏäíÇ ßÊÇÈ')).toBe('windows-1256');
+      expect(guessLegacyEncoding(shapeUyghur(text))).toBe('presentation-forms');
+      expect(guessLegacyEncoding(shapeUyghur(text, { visualOrder: true }))).toBe('presentation-forms-visual');
+      expect(decodeLegacy(shapeUyghur(text, { visualOrder: true }))).toBe(text);
+    });
+
+    it('should not treat Unicode or Latin text as legacy', () => {
+      expect(guessLegacyEncoding('سالام دۇنيا')).toBeUndefined();
+      expect(guessLegacyEncoding('Größe café naïve')).toBeUndefined();
+      expect(decodeLegacy('hello')).toBe('hello');
+    });
+  });
+
+  describe('registerLegacyEncoding', () => {
+    it('should support registered encodings', () => {
+      registerLegacyEncoding({
+        name: 'test-font',
+        table: { ...getLegacyEncoding('windows-1256')!.table, '\u00fc': 'ۈ' },
+      });
+      expect(listLegacyEncodings()).toContain('test-font');
+      expect(decodeLegacy('Ê\u00fcÑß', 'test-font')).toBe('تۈرك');
+      expect(() => decodeLegacy('x', 'nope')).toThrow('Unknown legacy encoding: nope');
+    });
+
+    it('should decode and guess a registered font layout with Uyghur-only letters', () => {
+      registerLegacyEncoding({
+        name: 'test-uyghur-font',
+        table: {
+          ...getLegacyEncoding('windows-1256')!.table,
+          'ç': 'ۇ',
+          'ô': 'ۆ',
+          'ü': 'ۈ',
+          'é': 'ې',
+          'û': 'ۋ',
+          'è': 'ە',
+          'ë': 'ڭ',
+        },
+      });
+      const text = 'ÆçíÛçÑ Êìáì ßôëüá ûèÊèä ÈéÑìÔ';
+      expect(decodeLegacy(text, 'test-uyghur-font')).toBe('ئۇيغۇر تىلى كۆڭۈل ۋەتەن بېرىش');
+      expect(guessLegacyEncoding(text)).toBe('test-uyghur-font');
+    });
+  });
+});
+
+describe('Numbers', () => {
   describe('toWesternNumerals', () => {
     it('should convert Arabic-Indic numerals', () => {
       expect(toWesternNumerals('٢٠٢٤')).toBe('2024');
@@ -210,5 +1021,537 @@ describe('Number Conversion', () => {
       expect(extractNumbers('٢٠٢٤-يىل ٥-ئاي')).toEqual([2024, 5]);
       expect(extractNumbers('Page 123 of 456')).toEqual([123, 456]);
     });
+
+    it('should optionally extract spelled-out numbers', () => {
+      expect(extractNumbers('ئۈچ يۈز ئەللىك بەش كىشى، 12 ئۆي')).toEqual([12]);
+      expect(extractNumbers('ئۈچ يۈز ئەللىك بەش كىشى، 12 ئۆي', { words: true })).toEqual([355, 12]);
+      expect(extractNumbers('bizde ikki ming kitab bar', { words: true })).toEqual([2000]);
+      expect(extractNumbers('بەش ئالتە', { words: true })).toEqual([5, 6]);
+    });
+
+    it('should keep decimals, signs and grouping together', () => {
+      expect(extractNumbers('-12, 3.5 we 1,250')).toEqual([-12, 3.5, 1250]);
+      expect(extractNumbers('٣٫٥ we ١٬٢٥٠ we -٧')).toEqual([3.5, 1250, -7]);
+      expect(extractNumbers('2024-05-12')).toEqual([2024, 5, 12]);
+      expect(extractNumbers('1,2,3')).toEqual([1, 2, 3]);
+      expect(extractNumbers('5-10 kün')).toEqual([5, 10]);
+    });
+  });
+
+  describe('extractNumberMatches', () => {
+    it('should report text, numeral system and offsets', () => {
+      expect(extractNumberMatches('باھاسى ٣٫٥ يۈەن')).toEqual([
+        { value: 3.5, text: '٣٫٥', system: 'arabic-indic', start: 7, end: 10 },
+      ]);
+      expect(extractNumberMatches('a-5 (-3)')).toEqual([
+        { value: 5, text: '5', system: 'western', start: 2, end: 3 },
+        { value: -3, text: '-3', system: 'western', start: 5, end: 7 },
+      ]);
+    });
+
+    it('should read ranges', () => {
+      expect(extractNumberMatches('5-10 kün')).toEqual([
+        { value: 5, to: 10, text: '5-10', system: 'western', start: 0, end: 4 },
+      ]);
+      expect(extractNumberMatches('٢٠–٣٠')[0]).toMatchObject({ value: 20, to: 30, system: 'arabic-indic' });
+      expect(extractNumberMatches('2024-05-12').map((match) => match.text)).toEqual(['2024', '05', '12']);
+    });
+
+    it('should include number words in order', () => {
+      expect(extractNumberMatches('ئۈچ يۈز ئەللىك بەش كىشى، 12 ئۆي', { words: true })).toEqual([
+        { value: 355, text: 'ئۈچ يۈز ئەللىك بەش', system: 'words', start: 0, end: 18 },
+        { value: 12, text: '12', system: 'western', start: 25, end: 27 },
+      ]);
+    });
+  });
+
+  describe('formatNumber', () => {
+    it('should keep the numeral system shorthand', () => {
+      expect(formatNumber(2024, 'arabic-indic')).toBe('٢٠٢٤');
+      expect(formatNumber(2024)).toBe('2024');
+      expect(formatNumber(3.5, 'arabic-indic')).toBe('٣٫٥');
+    });
+
+    it('should group digits and use Arabic separators', () => {
+      expect(formatNumber(1234567.5, { grouping: true })).toBe('1,234,567.5');
+      expect(formatNumber(1234567.5, { system: 'arabic-indic', grouping: true })).toBe('١٬٢٣٤٬٥٦٧٫٥');
+      expect(formatNumber(1234567.5, { grouping: true, groupSeparator: ' ', decimalSeparator: ',' })).toBe(
+        '1 234 567,5'
+      );
+    });
+
+    it('should format fraction digits, percentages and signs', () => {
+      expect(formatNumber(3.14159, { fractionDigits: 2 })).toBe('3.14');
+      expect(formatNumber(0.125, { style: 'percent', fractionDigits: 1 })).toBe('12.5%');
+      expect(formatNumber(0.07, { style: 'percent' })).toBe('7%');
+      expect(formatNumber(0.5, { style: 'percent', system: 'arabic-indic' })).toBe('٥٠٪');
+      expect(formatNumber(-5, { signPosition: 'after' })).toBe('5-');
+      expect(formatNumber(5, { signDisplay: 'always' })).toBe('+5');
+      expect(formatNumber(-5, { signDisplay: 'never' })).toBe('5');
+      expect(formatNumber(-0.001, { fractionDigits: 2 })).toBe('0.00');
+    });
+
+    it('should format currencies in every script', () => {
+      expect(formatNumber(1234.5, { style: 'currency', grouping: true })).toBe('1,234.50 يۈەن');
+      expect(formatNumber(12, { style: 'currency', script: 'latin' })).toBe('12.00 yüen');
+      expect(formatNumber(99, { style: 'currency', currency: 'KZT', script: 'cyrillic' })).toBe('99.00 тәңгә');
+      expect(formatNumber(5, { style: 'currency', currency: 'KGS' })).toBe('5.00 سوم');
+      expect(formatNumber(-12.5, { style: 'currency', currencyDisplay: 'symbol' })).toBe('-¥12.50');
+      expect(() => formatNumber(1, { style: 'currency', currency: 'XYZ' })).toThrow('Unknown currency');
+    });
+  });
+
+  describe('parseNumber', () => {
+    it('should parse everything formatNumber produces', () => {
+      const cases: Array<[number, Parameters<typeof formatNumber>[1]]> = [
+        [2024, 'arabic-indic'],
+        [1234567.5, { system: 'arabic-indic', grouping: true }],
+        [0.125, { style: 'percent', fractionDigits: 1 }],
+        [0.5, { style: 'percent', system: 'arabic-indic' }],
+        [-1234.5, { style: 'currency', grouping: true, signPosition: 'after', system: 'arabic-indic' }],
+        [99, { style: 'currency', currency: 'KZT', script: 'latin' }],
+        [-12.5, { style: 'currency', currency: 'KGS', currencyDisplay: 'symbol' }],
+        [5, { signDisplay: 'always' }],
+      ];
+      for (const [value, options] of cases) {
+        expect(parseNumber(formatNumber(value, options), typeof options === 'object' ? options : undefined)).toBe(value);
+      }
+
+      const custom = { grouping: true, groupSeparator: ' ', decimalSeparator: ',' };
+      expect(parseNumber(formatNumber(1234567.5, custom), custom)).toBe(1234567.5);
+    });
+
+    it('should reject text that is not a number', () => {
+      expect(parseNumber('abc')).toBeNaN();
+      expect(parseNumber('abc 12')).toBeNaN();
+      expect(parseNumber('')).toBeNaN();
+    });
+
+    it('should only read a sign after the number when asked to', () => {
+      expect(parseNumber(toOrdinal(5))).toBe(5);
+      expect(parseNumber('5-', { signPosition: 'after' })).toBe(-5);
+      expect(parseNumber('-5', { signPosition: 'after' })).toBeNaN();
+      expect(parseNumber('٥−', { signPosition: 'after' })).toBe(-5);
+    });
+
+    it('should read the number at the start of the text', () => {
+      expect(parseNumber('12abc')).toBe(12);
+      expect(parseNumber('5-ئاي')).toBe(5);
+      expect(parseNumber('2024-يىل')).toBe(2024);
+      expect(parseNumber('٢٠٢٤-يىلى')).toBe(2024);
+      expect(parseNumber('-1,234.5 kg')).toBe(-1234.5);
+      expect(parseNumber('5- kün', { signPosition: 'after' })).toBe(-5);
+    });
+
+    it('should require the whole text to be a number in strict mode', () => {
+      expect(parseNumber('12abc', { strict: true })).toBeNaN();
+      expect(parseNumber('-5-', { strict: true })).toBeNaN();
+      expect(parseNumber(toOrdinal(5), { strict: true })).toBeNaN();
+      expect(parseNumber('1,234.5', { strict: true })).toBe(1234.5);
+    });
+  });
+
+  describe('toOrdinal', () => {
+    it('should format ordinals', () => {
+      expect(toOrdinal(5) + 'ئاي').toBe('5-ئاي');
+      expect(toOrdinal(2024, { system: 'arabic-indic' })).toBe('٢٠٢٤-');
+      expect(toOrdinal(5, { style: 'word' })).toBe('بەشىنچى');
+      expect(toOrdinal(6, { style: 'word', script: 'latin' })).toBe('altinchi');
+      expect(() => toOrdinal(1.5)).toThrow('Ordinal form requires an integer');
+      expect(() => toOrdinal(-1)).toThrow('Ordinal form requires a positive integer');
+      expect(() => toOrdinal(0, { style: 'word' })).toThrow('Ordinal form requires a positive integer');
+    });
+  });
+
+  describe('attachSuffixToNumber', () => {
+    it('should attach suffixes with vowel harmony and voicing', () => {
+      expect(attachSuffixToNumber(5, 'غا')).toBe('5 كە');
+      expect(attachSuffixToNumber(3, 'غا')).toBe('3 كە');
+      expect(attachSuffixToNumber(10, 'كە')).toBe('10 غا');
+      expect(attachSuffixToNumber(40, 'غا')).toBe('40 قا');
+      expect(attachSuffixToNumber(2, 'قا')).toBe('2 گە');
+      expect(attachSuffixToNumber(1000, 'گە')).toBe('1000 غا');
+      expect(attachSuffixToNumber(1000000, 'دە')).toBe('1000000 دا');
+      expect(attachSuffixToNumber(5, 'دا')).toBe('5 تە');
+      expect(attachSuffixToNumber(3.5, 'دىن')).toBe('3.5 تىن');
+      expect(attachSuffixToNumber(2, 'ى', { separator: '-' })).toBe('2-سى');
+      expect(attachSuffixToNumber(1, 'سى', { separator: '-' })).toBe('1-ى');
+      expect(attachSuffixToNumber(6, 'ىمىز', { separator: '-' })).toBe('6-مىز');
+    });
+
+    it('should support numeral systems, separators and ULY suffixes', () => {
+      expect(attachSuffixToNumber(3, 'دىن', { system: 'arabic-indic', separator: '-' })).toBe('٣-تىن');
+      expect(attachSuffixToNumber(7, 'gha')).toBe('7 ge');
+      expect(attachSuffixToNumber(30, 'ge')).toBe('30 gha');
+    });
+  });
+});
+
+describe('Command Line', () => {
+  async function cli(args: string[], stdin = '') {
+    let stdout = '';
+    let stderr = '';
+    const code = await runCli(args, {
+      stdin: [stdin],
+      stdout: (text) => (stdout += text),
+      stderr: (text) => (stderr += text),
+    });
+    return { code, stdout, stderr };
+  }
+
+  describe('runCli', () => {
+    it('should transliterate stdin line by line', async () => {
+      expect(await cli(['translit'], 'سالام دۇنيا\nياخشىمۇسىز\n')).toMatchObject({
+        code: 0,
+        stdout: 'salam dunya\nyaxshimusiz\n',
+      });
+      expect((await cli(['translit', '--to', 'arabic'], 'salam')).stdout).toBe('سالام');
+      expect((await cli(['translit', '--to=latin', '--preserve-case'], 'سالام')).stdout).toBe('Salam');
+    });
+
+    it('should rewrite files in place', async () => {
+      const file = join(await mkdtemp(join(tmpdir(), 'uyghur-utils-')), 'page.html');
+      await writeFile(file, '<p class="lead">سالام</p>\n');
+
+      expect((await cli(['translit', '--html', '-i', file])).code).toBe(0);
+      expect(await readFile(file, 'utf8')).toBe('<p class="lead">salam</p>\n');
+    });
+
+    it('should run the other commands', async () => {
+      expect((await cli(['slug'], 'Uyghur Tili\nsalam\n')).stdout).toBe('uyghur-tili\nsalam\n');
+      expect(JSON.parse((await cli(['detect', '--json'], 'مەن كىتاب')).stdout)).toMatchObject({
+        script: 'uyghur',
+        direction: 'rtl',
+      });
+      expect((await cli(['normalize'], 'سالام   دۇنيا')).stdout).toBe('سالام دۇنيا');
+      expect((await cli(['numbers', '--to', 'arabic-indic'], 'a 12')).stdout).toBe('a ١٢');
+      expect((await cli(['numbers', '--extract', '--json'], '٢٠٢٤-يىل ٥-ئاي')).stdout).toBe('[2024,5]\n');
+    });
+
+    it('should exit non-zero on invalid usage and input', async () => {
+      expect((await cli([])).code).toBe(2);
+      expect((await cli(['unknown'])).code).toBe(2);
+      expect((await cli(['translit', '--to', 'klingon'])).code).toBe(2);
+      expect((await cli(['translit', '--bogus'])).code).toBe(2);
+      expect((await cli(['normalize', '-i'])).code).toBe(2);
+      expect((await cli(['slug'], '!!!')).code).toBe(1);
+      expect((await cli(['translit', '/nonexistent/file.txt'])).code).toBe(1);
+
+      const invalid = await runCli(['normalize'], {
+        stdin: [new Uint8Array([0xff])],
+        stdout: () => undefined,
+        stderr: () => undefined,
+      });
+      expect(invalid).toBe(1);
+    });
+  });
+});
+
+describe('Number Words', () => {
+  describe('numberToWords', () => {
+    it('should spell out integers', () => {
+      expect(numberToWords(0)).toBe('نۆل');
+      expect(numberToWords(2024)).toBe('ئىككى مىڭ يىگىرمە تۆت');
+      expect(numberToWords(1999)).toBe('مىڭ توققۇز يۈز توقسان توققۇز');
+      expect(numberToWords(21000)).toBe('يىگىرمە بىر مىڭ');
+      expect(numberToWords(2500000000)).toBe('ئىككى مىليارد بەش يۈز مىليون');
+      expect(numberToWords(3000000000000n)).toBe('ئۈچ تىرىليون');
+    });
+
+    it('should spell out negatives, decimals and fractions', () => {
+      expect(numberToWords(-5)).toBe('مىنۇس بەش');
+      expect(numberToWords(-3.5)).toBe('مىنۇس ئۈچ پۈتۈن ئوندىن بەش');
+      expect(numberToWords('12.50')).toBe('ئون ئىككى پۈتۈن يۈزدىن ئەللىك');
+      expect(numberToWords('3/4')).toBe('تۆتتىن ئۈچ');
+      expect(numberToWords('١/٢')).toBe('ئىككىدىن بىر');
+    });
+
+    it('should support scripts and ordinals', () => {
+      expect(numberToWords(2024, { script: 'latin' })).toBe('ikki ming yigirme töt');
+      expect(numberToWords(2024, { script: 'cyrillic' })).toBe('икки миң йигирмә төт');
+      expect(numberToWords(6, { ordinal: true })).toBe('ئالتىنچى');
+      expect(numberToWords(20, { ordinal: true, script: 'latin' })).toBe('yigirminchi');
+    });
+
+    it('should weaken the last syllable of longer ordinals', () => {
+      expect(numberToWords(90, { ordinal: true })).toBe('توقسىنىنچى');
+      expect(numberToWords(80, { ordinal: true })).toBe('سەكسىنىنچى');
+      expect(numberToWords(5, { ordinal: true })).toBe('بەشىنچى');
+      expect(numberToWords(60, { ordinal: true })).toBe('ئاتمىشىنچى');
+      expect(wordsToNumber('توقسىنىنچى')).toBe(90);
+    });
+
+    it('should reject invalid input', () => {
+      expect(() => numberToWords(NaN)).toThrow('Invalid number');
+      expect(() => numberToWords('abc')).toThrow('Invalid number');
+      expect(() => numberToWords(1.5, { ordinal: true })).toThrow('Ordinal form requires an integer');
+    });
+  });
+
+  describe('wordsToNumber', () => {
+    it('should parse number words', () => {
+      expect(wordsToNumber('ئۈچ يۈز ئەللىك بەش')).toBe(355);
+      expect(wordsToNumber('ikki ming')).toBe(2000);
+      expect(wordsToNumber('икки миң')).toBe(2000);
+      expect(wordsToNumber('مىنۇس ئۈچ پۈتۈن ئوندىن بەش')).toBe(-3.5);
+      expect(wordsToNumber('تۆتتىن ئۈچ')).toBe(0.75);
+      expect(wordsToNumber('بىر يېرىم')).toBe(1.5);
+      expect(wordsToNumber('ئىككىنچى')).toBe(2);
+      expect(wordsToNumber('salam')).toBeNaN();
+      expect(wordsToNumber('مىڭ مىليون')).toBeNaN();
+    });
+
+    it('should round-trip numbers through words', () => {
+      for (const n of [0, 11, 101, 1999, 21000, 123456789, 2500000000]) {
+        expect(wordsToNumber(numberToWords(n))).toBe(n);
+        expect(wordsToNumber(numberToWords(n, { script: 'latin' }))).toBe(n);
+      }
+    });
+  });
+});
+
+describe('Dates', () => {
+  const date = new Date(2024, 4, 12, 14, 30, 5);
+
+  describe('formatUyghurDate', () => {
+    it('should format dates', () => {
+      expect(formatUyghurDate(date)).toBe('2024-يىلى 5-ئاينىڭ 12-كۈنى');
+      expect(formatUyghurDate(date, 'D-MMMM YYYY، dddd')).toBe('12-ماي 2024، يەكشەنبە');
+      expect(formatUyghurDate(date, 'YYYY/MM/DD HH:mm:ss')).toBe('2024/05/12 14:30:05');
+      expect(formatUyghurDate(date, 'YYYY/MM/DD', { numerals: 'arabic-indic' })).toBe('٢٠٢٤/٠٥/١٢');
+      expect(() => formatUyghurDate(new Date(NaN))).toThrow('Invalid date');
+    });
+
+    it('should format dates in other scripts', () => {
+      expect(formatUyghurDate(date, undefined, { script: 'latin' })).toBe('2024-yili 5-ayning 12-küni');
+      expect(formatUyghurDate(date, 'D-MMMM, dddd', { script: 'cyrillic' })).toBe('12-май, йәкшәнбә');
+      expect(formatUyghurDate(date, '[Dushenbe] D', { script: 'latin' })).toBe('Dushenbe 12');
+    });
+
+    it('should keep pattern punctuation in other scripts', () => {
+      expect(formatUyghurDate(date, 'YYYY/MM/DD HH:mm', { script: 'latin' })).toBe('2024/05/12 14:30');
+      expect(formatUyghurDate(date, 'DD.MM.YYYY | HH:mm', { script: 'cyrillic' })).toBe('12.05.2024 | 14:30');
+      expect(formatUyghurDate(date, 'D-MMMM، YYYY/M', { script: 'latin' })).toBe('12-may, 2024/5');
+    });
+  });
+
+  describe('parseUyghurDate', () => {
+    it('should parse dates', () => {
+      const day = new Date(2024, 4, 12);
+      expect(parseUyghurDate('2024-يىلى 5-ئاينىڭ 12-كۈنى')).toEqual(day);
+      expect(parseUyghurDate('١٢-ماي ٢٠٢٤')).toEqual(day);
+      expect(parseUyghurDate('2024-йили 5-айниң 12-күни')).toEqual(day);
+      expect(parseUyghurDate('2024-05-12')).toEqual(day);
+      expect(parseUyghurDate('12.05.2024 09:05:07')).toEqual(new Date(2024, 4, 12, 9, 5, 7));
+      expect(parseUyghurDate('2024-yili 12-may, 14:30')).toEqual(new Date(2024, 4, 12, 14, 30));
+    });
+
+    it('should round-trip formatted dates', () => {
+      for (const script of ['arabic', 'latin', 'cyrillic'] as const) {
+        const text = formatUyghurDate(date, 'dddd، D-MMMM YYYY HH:mm:ss', { script, numerals: 'arabic-indic' });
+        expect(parseUyghurDate(text)).toEqual(date);
+      }
+    });
+
+    it('should reject text without a valid date', () => {
+      expect(parseUyghurDate('ئەتە')).toBeUndefined();
+      expect(parseUyghurDate('2024-02-30')).toBeUndefined();
+      expect(parseUyghurDate('2024-يىلى 13-ئاينىڭ 1-كۈنى')).toBeUndefined();
+      expect(parseUyghurDate('')).toBeUndefined();
+    });
+  });
+
+  describe('formatRelativeTime', () => {
+    it('should format past and future times', () => {
+      expect(formatRelativeTime(-3, 'minute')).toBe('3 مىنۇت ئىلگىرى');
+      expect(formatRelativeTime(2, 'day')).toBe('2 كۈندىن كېيىن');
+      expect(formatRelativeTime(5, 'second')).toBe('5 سېكۇنتتىن كېيىن');
+      expect(formatRelativeTime(2, 'week')).toBe('2 ھەپتىدىن كېيىن');
+      expect(formatRelativeTime(-10, 'year')).toBe('10 يىل ئىلگىرى');
+    });
+
+    it('should use words for nearby times unless numeric is always', () => {
+      expect(formatRelativeTime(1, 'day')).toBe('ئەتە');
+      expect(formatRelativeTime(-1, 'day')).toBe('تۈنۈگۈن');
+      expect(formatRelativeTime(-1, 'year')).toBe('بۇلتۇر');
+      expect(formatRelativeTime(0, 'second')).toBe('ھازىر');
+      expect(formatRelativeTime(1, 'day', { numeric: 'always' })).toBe('1 كۈندىن كېيىن');
+    });
+
+    it('should support scripts and numeral systems', () => {
+      expect(formatRelativeTime(-3, 'minute', { script: 'latin' })).toBe('3 minut ilgiri');
+      expect(formatRelativeTime(2, 'day', { script: 'cyrillic' })).toBe('2 күндин кейин');
+      expect(formatRelativeTime(-3, 'minute', { numerals: 'arabic-indic' })).toBe('٣ مىنۇت ئىلگىرى');
+      expect(formatRelativeTime(1, 'day', { script: 'latin' })).toBe('ete');
+    });
+
+    it('should format dates relative to now', () => {
+      const now = new Date(2024, 4, 12, 12);
+      expect(formatRelativeTime(new Date(2024, 4, 12, 11, 55), { now })).toBe('5 مىنۇت ئىلگىرى');
+      expect(formatRelativeTime(new Date(2024, 4, 11, 12), { now })).toBe('تۈنۈگۈن');
+      expect(formatRelativeTime(new Date(2024, 4, 14, 12), { now })).toBe('2 كۈندىن كېيىن');
+      expect(formatRelativeTime(new Date(2024, 7, 12), { now })).toBe('3 ئايدىن كېيىن');
+    });
+
+    it('should reject invalid input', () => {
+      expect(() => formatRelativeTime(NaN, 'day')).toThrow('Invalid relative time');
+      expect(() => formatRelativeTime(1, 'fortnight' as 'day')).toThrow('Unknown relative time unit');
+    });
+  });
+});
+
+describe('Suffixes', () => {
+  describe('attachSuffix', () => {
+    it('should follow vowel harmony and voicing', () => {
+      expect(attachSuffix('كىتاب', 'لەر')).toBe('كىتابلار');
+      expect(attachSuffix('ئۆي', 'لار')).toBe('ئۆيلەر');
+      expect(attachSuffix('ئۈرۈمچى', 'دا')).toBe('ئۈرۈمچىدە');
+      expect(attachSuffix('مەكتەپ', 'غا')).toBe('مەكتەپكە');
+      expect(attachSuffix('يۈرەك', 'گە')).toBe('يۈرەككە');
+      expect(attachSuffix('تاماق', 'كە')).toBe('تاماققا');
+      expect(attachSuffix('شەھەر', 'نىڭ')).toBe('شەھەرنىڭ');
+    });
+
+    it('should assimilate velars and devoice a final ب before them', () => {
+      expect(attachSuffix('تاغ', 'غا')).toBe('تاغقا');
+      expect(attachSuffix('بەگ', 'گە')).toBe('بەگكە');
+      expect(attachSuffix('كىتاب', 'غا')).toBe('كىتابقا');
+      expect(attachSuffix('كىتاب', 'دا')).toBe('كىتابدا');
+      expect(attachSuffix('tagh', 'gha')).toBe('taghqa');
+      expect(stemUyghur(attachSuffix('تاغ', 'غا'))).toBe('تاغ');
+      expect(stemUyghur(attachSuffix('كىتاب', 'غا'))).toBe('كىتاب');
+    });
+
+    it('should give words with only neutral vowels back suffixes unless they have front velars', () => {
+      expect(attachSuffix('يىل', 'لار')).toBe('يىللار');
+      expect(attachSuffix('تىل', 'دا')).toBe('تىلدا');
+      expect(attachSuffix('مىڭ', 'غا')).toBe('مىڭغا');
+      expect(attachSuffix('كىشى', 'لار')).toBe('كىشىلەر');
+      expect(attachSuffix('بىر', 'غا')).toBe('بىرگە');
+      expect(attachSuffix('til', 'da')).toBe('tilda');
+      expect(attachSuffix('تىل', 'دا', { harmony: 'front' })).toBe('تىلدە');
+      expect(attachSuffix('كىشى', 'دا', { harmony: 'back' })).toBe('كىشىدا');
+    });
+
+    it('should choose connecting vowels and consonants', () => {
+      expect(attachSuffix('كىتاب', 'سى')).toBe('كىتابى');
+      expect(attachSuffix('كىتاب', 'ىم')).toBe('كىتابىم');
+      expect(attachSuffix('ئانا', 'ىم')).toBe('ئانام');
+      expect(attachSuffix('قول', 'ىم')).toBe('قولۇم');
+      expect(attachSuffix('كۆز', 'ىم')).toBe('كۆزۈم');
+      expect(attachSuffix('ئالتە', 'ىنچى')).toBe('ئالتىنچى');
+      expect(attachSuffix('توقسان', 'ىنچى')).toBe('توقسىنىنچى');
+    });
+
+    it('should weaken vowels', () => {
+      expect(attachSuffix('بالا', 'لار')).toBe('بالىلار');
+      expect(attachSuffix('ئالما', 'ى')).toBe('ئالمىسى');
+      expect(attachSuffix('ماشىنا', 'دا')).toBe('ماشىنىدا');
+      expect(attachSuffix('قەلەم', 'ى')).toBe('قەلىمى');
+      expect(attachSuffix('باش', 'ى')).toBe('بېشى');
+      expect(attachSuffix('دۇنيا', 'دا')).toBe('دۇنيادا');
+      expect(attachSuffix('دەرس', 'ى')).toBe('دەرسى');
+      expect(attachSuffix('بالا', 'لار', { weakening: false })).toBe('بالالار');
+    });
+
+    it('should work in ULY and Cyrillic', () => {
+      expect(attachSuffix('Qeshqer', 'ge')).toBe('Qeshqerge');
+      expect(attachSuffix('Ürümchi', '-نىڭ')).toBe('Ürümchining');
+      expect(attachSuffix('bala', 'lar')).toBe('balilar');
+      expect(attachSuffix('Қәшқәр', 'гә')).toBe('Қәшқәргә');
+    });
+
+    it('should attach vowel-initial ULY and Cyrillic suffixes without a hamza', () => {
+      expect(attachSuffix('kitab', 'i')).toBe('kitabi');
+      expect(attachSuffix('kitab', '-im')).toBe('kitabim');
+      expect(attachSuffix('ata', 'im')).toBe('atam');
+      expect(attachSuffix('alma', 'i')).toBe('almisi');
+      expect(attachSuffix('كىتاب', 'im')).toBe('كىتابىم');
+      expect(attachSuffix('китаб', 'и')).toBe('китаби');
+      expect(attachSuffix('ата', 'им')).toBe('атам');
+      expect(attachSuffix('алма', 'и')).toBe('алмиси');
+      expect(attachSuffix('', 'لار')).toBe('');
+    });
+  });
+});
+
+describe('Stemming', () => {
+  describe('stemUyghur', () => {
+    const forms: Record<string, string[]> = {
+      كىتاب: ['كىتاب', 'كىتابلار', 'كىتابى', 'كىتابلىرىم', 'كىتابىمىز', 'كىتابلىرىمىزدىن', 'كىتابنىڭ', 'كىتابدا', 'كىتابقا'],
+      مەكتەپ: ['مەكتەپ', 'مەكتەپكە', 'مەكتەپتە', 'مەكتەپلەردە', 'مەكتەپتىن', 'مەكتەپتىكى'],
+      ئۆي: ['ئۆي', 'ئۆيدە', 'ئۆيىدە', 'ئۆيدىكى', 'ئۆيلەرنى', 'ئۆيگىچە'],
+      شەھەر: ['شەھەر', 'شەھەرگە', 'شەھەرلەرنىڭ', 'شەھەرلەرگىچە', 'شەھەرمۇ'],
+      بالى: ['بالا', 'بالىلار', 'بالىلىرى', 'بالىمىز', 'بالىغا'],
+      ئالمى: ['ئالما', 'ئالمىغا', 'ئالمىسى', 'ئالمىلار'],
+      ئاتى: ['ئاتا', 'ئاتىسى', 'ئاتىغا', 'ئاتىلار'],
+      ئات: ['ئات', 'ئاتقا', 'ئاتلار', 'ئاتنى'],
+      تاغ: ['تاغ', 'تاغقا', 'تاغدا', 'تاغلار'],
+      بەگ: ['بەگ', 'بەگكە', 'بەگلەر'],
+      قول: ['قول', 'قوللىرىم', 'قولى', 'قوللار'],
+      كۆز: ['كۆز', 'كۆزلىرىم', 'كۆزلىرىڭىز'],
+      مۇئەللىم: ['مۇئەللىم', 'مۇئەللىملەر', 'مۇئەللىمنىڭ', 'مۇئەللىمگە', 'مۇئەللىمى', 'مۇئەللىملىرىمىز'],
+      ئالىم: ['ئالىم', 'ئالىملار', 'ئالىمدىن', 'ئالىمى'],
+      دۇنيا: ['دۇنيا', 'دۇنيادا', 'دۇنيانىڭ'],
+      كەل: ['كەلدى', 'كەلدىم', 'كەلگەن', 'كەلمەك'],
+      ئوقۇ: ['ئوقۇيدۇ', 'ئوقۇدى', 'ئوقۇدۇم', 'ئوقۇماق', 'ئوقۇۋاتىدۇ', 'ئوقۇغاندا'],
+    };
+
+    for (const [stem, words] of Object.entries(forms)) {
+      it(`should stem forms of ${stem}`, () => {
+        for (const word of words) expect(stemUyghur(word)).toBe(stem);
+      });
+    }
+
+    it('should only strip first- and second-person possessives after a plural', () => {
+      // 'ىم' and 'ىڭ' also end stems ('مۇئەللىم'), so a bare one is kept
+      expect(stemUyghur('كىتابىم')).toBe('كىتابىم');
+      expect(stemUyghur('قولۇم')).toBe('قولۇم');
+      expect(stemUyghur('كىتابلىرىڭ')).toBe('كىتاب');
+      expect(stemUyghur('مۇئەللىملىرىم')).toBe('مۇئەللىم');
+    });
+
+    it('should not strip verb endings from nouns', () => {
+      for (const word of ['تاماق', 'ئەتىگەن', 'ئەپەندى', 'ئورۇندۇق', 'چاقماق']) {
+        expect(stemUyghur(word)).toBe(word);
+      }
+      expect(stemUyghur('تاماقنى')).toBe('تاماق');
+      expect(stemUyghur('ئەتىگەندە')).toBe('ئەتىگەن');
+      expect(stemUyghur('ئورۇندۇقلار')).toBe('ئورۇندۇق');
+      expect(stemUyghur('دوستۇم')).toBe('دوست');
+      expect(stemUyghur('دوستلار')).toBe('دوست');
+    });
+
+    it('should respect voicing and connecting vowels', () => {
+      // '-تا' only follows voiceless consonants; a bare '-م' is not a suffix
+      expect(stemUyghur('ئاتا')).not.toBe(stemUyghur('ئات'));
+      expect(stemUyghur('يولدا')).toBe('يول');
+      expect(stemUyghur('ئادەم')).toBe('ئادەم');
+      expect(stemUyghur('ئادەملەر')).toBe('ئادەم');
+    });
+
+    it('should keep short words', () => {
+      expect(stemUyghur('سۇ')).toBe('سۇ');
+      expect(stemUyghur('سۇدا')).toBe('سۇ');
+      expect(stemUyghur('ئىش')).toBe('ئىش');
+      expect(stemUyghur('')).toBe('');
+    });
+
+    it('should work in ULY and Cyrillic', () => {
+      expect(stemUyghur('kitablirimizdin')).toBe('kitab');
+      expect(stemUyghur('Qeshqerde')).toBe('Qeshqer');
+      expect(stemUyghur('mekteplerde')).toBe('mektep');
+      expect(stemUyghur('Қәшқәрдә')).toBe('Қәшқәр');
+    });
+  });
+
+  describe('normalizeForSearch', () => {
+    it('should stem words in normalizeForSearch', () => {
+      expect(normalizeForSearch('كىتابلىرىمىزدىن', { stem: true })).toBe(normalizeForSearch('كىتاب', { stem: true }));
+      expect(normalizeForSearch('بالىلار مەكتەپكە باردى.', { stem: true })).toBe('بالى مەكتەپ بار');
+      expect(normalizeForSearch('Kitablirimni oqudum', { stem: true })).toBe('kitab oqu');
+      expect(normalizeForSearch('iPhone products', { stem: true })).toBe('iphone products');
+      expect(normalizeForSearch('كىتابلار')).toBe('كىتابلار');
+    });
   });
 });
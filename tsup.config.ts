@@ -1,12 +1,24 @@
 import { defineConfig } from 'tsup';
 
-export default defineConfig({
-  entry: ['src/index.ts'],
-  format: ['cjs', 'esm'],
-  dts: true,
-  splitting: false,
-  sourcemap: true,
-  clean: true,
-  treeshake: true,
-  minify: false,
-});
+export default defineConfig([
+  {
+    entry: ['src/index.ts'],
+    format: ['cjs', 'esm'],
+    dts: true,
+    splitting: false,
+    sourcemap: true,
+    clean: true,
+    treeshake: true,
+    minify: false,
+  },
+  {
+    entry: { cli: 'src/bin.ts' },
+    format: ['esm'],
+    platform: 'node',
+    splitting: false,
+    sourcemap: true,
+    treeshake: true,
+    minify: false,
+    banner: { js: '#!/usr/bin/env node' },
+  },
+]);